@@ -1,13 +1,14 @@
 import { WebSocket } from 'ws';
 import { SecureConsumer } from '../src/SecureConsumer';
-import { MessageEncryptionPlugin } from '../src/MessageEncryptionPlugin';
+import { type BaseEncryptionPlugin } from '../src/BaseEncryptionPlugin';
+import { createEncryptionPlugin } from '../src/cipher-suites';
 
 const SERVER_URL = 'ws://localhost:9876';
 
 console.log(`🔌 Client connecting to ${SERVER_URL}`);
 
 const consumer = new SecureConsumer();
-let encryptionPlugin: MessageEncryptionPlugin | null = null;
+let encryptionPlugin: BaseEncryptionPlugin | null = null;
 let messageCount = 0;
 
 const ws = new WebSocket(SERVER_URL);
@@ -59,7 +60,7 @@ ws.on('message', data => {
         console.log(`   Auth key: ${keys!.authenticationKey.toString('hex').substring(0, 32)}...`);
 
         // Initialize encryption
-        encryptionPlugin = new MessageEncryptionPlugin(keys!);
+        encryptionPlugin = createEncryptionPlugin(keys!);
         console.log(`   Algorithm: ${encryptionPlugin.getAlgorithmName()}`);
 
         console.log('✅ Sending final confirmation');
@@ -1,11 +1,16 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { SecureProvider, SecureConsumer } from '../src/index';
-import { MessageEncryptionPlugin } from '../src/MessageEncryptionPlugin';
+import {
+  SecureProvider,
+  SecureConsumer,
+  createEncryptionPlugin,
+  type BaseEncryptionPlugin,
+  type SessionKeys,
+} from '../src/index';
 
 /**
  * A demonstration of secure key exchange in the spirit of Benjamin Franklin's
  * careful experimental method - with proper documentation and verification
- * Now using the MessageEncryptionPlugin for secure message handling
+ * Now using the encryption plugin for the negotiated cipher suite
  */
 
 console.log("🔬 Franklin's Secure Socket Demonstration");
@@ -16,8 +21,8 @@ console.log('');
 // Provider side - The generous party who initiates discourse
 const wss = new WebSocketServer({ port: 7438 });
 const provider = new SecureProvider();
-let providerKeys: { encryptionKey: Buffer; authenticationKey: Buffer } | null = null;
-let providerEncryption: MessageEncryptionPlugin;
+let providerKeys: SessionKeys | null = null;
+let providerEncryption: BaseEncryptionPlugin;
 
 wss.on('connection', ws => {
   console.log('📡 Consumer has connected to our secure establishment');
@@ -58,7 +63,7 @@ wss.on('connection', ws => {
           );
 
           // Initialize encryption plugin with derived keys
-          providerEncryption = new MessageEncryptionPlugin(providerKeys!);
+          providerEncryption = createEncryptionPlugin(providerKeys!);
           console.log(
             '🔐 Provider: Encryption plugin initialized with algorithm:',
             providerEncryption.getAlgorithmName(),
@@ -99,8 +104,8 @@ wss.on('connection', ws => {
 setTimeout(() => {
   const consumer = new SecureConsumer();
   const ws = new WebSocket('ws://localhost:7438');
-  let consumerKeys: { encryptionKey: Buffer; authenticationKey: Buffer } | null = null;
-  let consumerEncryption: MessageEncryptionPlugin;
+  let consumerKeys: SessionKeys | null = null;
+  let consumerEncryption: BaseEncryptionPlugin;
 
   ws.on('open', () => {
     console.log("📡 Consumer: Connected to Provider's establishment");
@@ -132,7 +137,7 @@ setTimeout(() => {
           );
 
           // Initialize encryption plugin with derived keys
-          consumerEncryption = new MessageEncryptionPlugin(consumerKeys!);
+          consumerEncryption = createEncryptionPlugin(consumerKeys!);
           console.log(
             '🔐 Consumer: Encryption plugin initialized with algorithm:',
             consumerEncryption.getAlgorithmName(),
@@ -1,6 +1,7 @@
 import { WebSocketServer } from 'ws';
 import { SecureProvider } from '../src/SecureProvider';
-import { MessageEncryptionPlugin } from '../src/MessageEncryptionPlugin';
+import { type BaseEncryptionPlugin } from '../src/BaseEncryptionPlugin';
+import { createEncryptionPlugin } from '../src/cipher-suites';
 
 const PORT = 9876;
 
@@ -10,7 +11,7 @@ console.log('📡 Waiting for client connection...');
 const wss = new WebSocketServer({ port: PORT });
 const provider = new SecureProvider();
 
-let encryptionPlugin: MessageEncryptionPlugin | null = null;
+let encryptionPlugin: BaseEncryptionPlugin | null = null;
 let messageCount = 0;
 
 wss.on('connection', ws => {
@@ -64,7 +65,7 @@ wss.on('connection', ws => {
           );
 
           // Initialize encryption
-          encryptionPlugin = new MessageEncryptionPlugin(keys!);
+          encryptionPlugin = createEncryptionPlugin(keys!);
           console.log(`   Algorithm: ${encryptionPlugin.getAlgorithmName()}`);
 
           console.log('');
@@ -1,7 +1,11 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { SecureProvider } from '../src/SecureProvider';
 import { SecureConsumer } from '../src/SecureConsumer';
+import { type BaseEncryptionPlugin } from '../src/BaseEncryptionPlugin';
 import { MessageEncryptionPlugin } from '../src/MessageEncryptionPlugin';
+import { createEncryptionPlugin } from '../src/cipher-suites';
+import { ChaCha20Poly1305Plugin } from '../src/ChaCha20Poly1305Plugin';
+import { generateKeys } from '../src/crypto-utils';
 import * as fs from 'fs';
 
 const PORT = 9877;
@@ -12,12 +16,13 @@ const TEST_SIZES = [
 ];
 const TEST_ITERATIONS = 20;
 const WARMUP_ITERATIONS = 3;
+const CIPHER_ITERATIONS = 5;
 
 const wss = new WebSocketServer({ port: PORT });
 
 wss.on('connection', ws => {
   const provider = new SecureProvider();
-  let encryptionPlugin: MessageEncryptionPlugin | null = null;
+  let encryptionPlugin: BaseEncryptionPlugin | null = null;
 
   provider.startHandshake(ws);
 
@@ -39,7 +44,7 @@ wss.on('connection', ws => {
       const complete = provider.handleResponse(msg);
       if (complete.confirmed) {
         const keys = provider.getDerivedKeys();
-        encryptionPlugin = new MessageEncryptionPlugin(keys!);
+        encryptionPlugin = createEncryptionPlugin(keys!);
       }
     } else if (msg.type === 'encrypted-plugin-message' && encryptionPlugin) {
       const unwrapped = encryptionPlugin.unwrapMessage(message);
@@ -78,6 +83,13 @@ interface TestResult {
   pooledTime?: number;
 }
 
+interface CipherResult {
+  cipher: string;
+  size: number;
+  encryptMBps: number;
+  decryptMBps: number;
+}
+
 async function runThroughputTest() {
   const results: TestResult[] = [];
   const baselineResults: TestResult[] = [];
@@ -123,7 +135,10 @@ async function runThroughputTest() {
     baselineResults.push(baselineStats);
   }
 
-  generateAdvancedReport(results, baselineResults);
+  console.log('\nComparing cipher suites...');
+  const cipherResults = runCipherBenchmark();
+
+  generateAdvancedReport(results, baselineResults, cipherResults);
   console.log('Throughput test complete. Report generated at throughput-report.md');
   wss.close();
   process.exit(0);
@@ -149,7 +164,48 @@ function calculateStatistics(times: number[], size: number): TestResult {
   };
 }
 
-function generateAdvancedReport(results: TestResult[], baselineResults: TestResult[]) {
+// Raw plugin encrypt/decrypt speed, without the network, for each cipher suite
+function runCipherBenchmark(): CipherResult[] {
+  const plugins = [
+    new MessageEncryptionPlugin(generateKeys()),
+    new ChaCha20Poly1305Plugin(generateKeys()),
+  ];
+  const cipherResults: CipherResult[] = [];
+
+  for (const plugin of plugins) {
+    for (const size of TEST_SIZES) {
+      const plaintext = 'x'.repeat(size);
+      let encryptTime = 0;
+      let decryptTime = 0;
+
+      for (let i = 0; i < CIPHER_ITERATIONS; i++) {
+        const start = process.hrtime.bigint();
+        const encrypted = plugin.encrypt(plaintext);
+        const encryptedAt = process.hrtime.bigint();
+        plugin.decrypt(encrypted);
+        encryptTime += Number(encryptedAt - start) / 1_000_000;
+        decryptTime += Number(process.hrtime.bigint() - encryptedAt) / 1_000_000;
+      }
+
+      const megabytes = (size * CIPHER_ITERATIONS) / (1024 * 1024);
+      cipherResults.push({
+        cipher: plugin.getAlgorithmName(),
+        size,
+        encryptMBps: megabytes / (encryptTime / 1000),
+        decryptMBps: megabytes / (decryptTime / 1000),
+      });
+    }
+    plugin.destroy();
+  }
+
+  return cipherResults;
+}
+
+function generateAdvancedReport(
+  results: TestResult[],
+  baselineResults: TestResult[],
+  cipherResults: CipherResult[],
+) {
   let report = '# 🚀 Subtyl Socket Throughput Analysis\n\n';
   report += `**Test Date:** ${new Date().toUTCString()}\n`;
   report += `**Framework:** Encrypted WebSocket with Secure Handshake\n`;
@@ -216,6 +272,15 @@ function generateAdvancedReport(results: TestResult[], baselineResults: TestResu
     report += `| ${sizeStr} | ${r.avgTime.toFixed(1)} | ${baseline.avgTime.toFixed(1)} | +${overhead}% | ${r.throughputMBps.toFixed(1)} | ±${r.stdDev.toFixed(1)} | [${ciLower}, ${ciUpper}] |\n`;
   });
 
+  // Cipher suite comparison
+  report += '\n## 🔀 Cipher Suite Comparison\n\n';
+  report += `Plugin encrypt/decrypt only, ${CIPHER_ITERATIONS} iterations each.\n\n`;
+  report += '| Cipher Suite | Data Size | Encrypt (MB/s) | Decrypt (MB/s) |\n';
+  report += '|--------------|-----------|----------------|----------------|\n';
+  cipherResults.forEach(r => {
+    report += `| ${r.cipher} | ${r.size / (1024 * 1024)}MB | ${r.encryptMBps.toFixed(1)} | ${r.decryptMBps.toFixed(1)} |\n`;
+  });
+
   // Add performance flow diagram
   report += '\n## 🔄 Test Flow Architecture\n\n';
   report += '```mermaid\n';
@@ -284,7 +349,7 @@ function runSingleTest(size: number, unencrypted = false): Promise<number> {
   return new Promise((resolve, reject) => {
     const ws = new WebSocket(`ws://localhost:${PORT}`);
     const consumer = new SecureConsumer();
-    let encryptionPlugin: MessageEncryptionPlugin | null = null;
+    let encryptionPlugin: BaseEncryptionPlugin | null = null;
     const largeData = 'a'.repeat(size);
     let handshakeComplete = false;
     let startTime: bigint;
@@ -326,7 +391,7 @@ function runSingleTest(size: number, unencrypted = false): Promise<number> {
               const confirmation = consumer.handleMessage(message);
               if (confirmation.confirmed) {
                 const keys = consumer.getDerivedKeys();
-                encryptionPlugin = new MessageEncryptionPlugin(keys!);
+                encryptionPlugin = createEncryptionPlugin(keys!);
                 ws.send(JSON.stringify(confirmation.response));
                 handshakeComplete = true;
 
@@ -372,7 +437,7 @@ function runPooledTest(size: number): Promise<number> {
   return new Promise((resolve, reject) => {
     const ws = new WebSocket(`ws://localhost:${PORT}`);
     const consumer = new SecureConsumer();
-    let encryptionPlugin: MessageEncryptionPlugin | null = null;
+    let encryptionPlugin: BaseEncryptionPlugin | null = null;
     const largeData = 'a'.repeat(size);
     let handshakeComplete = false;
     let measurementCount = 0;
@@ -394,7 +459,7 @@ function runPooledTest(size: number): Promise<number> {
             const confirmation = consumer.handleMessage(message);
             if (confirmation.confirmed) {
               const keys = consumer.getDerivedKeys();
-              encryptionPlugin = new MessageEncryptionPlugin(keys!);
+              encryptionPlugin = createEncryptionPlugin(keys!);
               ws.send(JSON.stringify(confirmation.response));
               handshakeComplete = true;
 
@@ -0,0 +1,363 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import { randomBytes } from 'crypto';
+import { HKDF, counterNonce, createContextInfo } from './crypto-utils.ts';
+import {
+  BaseEncryptionPlugin,
+  type EncryptionContext,
+  type EncryptionKeys,
+  type EncryptionPluginOptions,
+  type EncryptionResult,
+} from './BaseEncryptionPlugin.ts';
+import { type SealedBytes } from './binary-frame.ts';
+
+export interface AEADResult extends EncryptionResult {
+  data: string;
+  metadata: {
+    /**
+     * Omitted for counter nonces, which the receiver rebuilds from the sequence number
+     */
+    iv?: string;
+    tag: string;
+  };
+}
+
+export interface StreamEncryptionOptions {
+  /**
+   * Plaintext bytes per chunk (default 64 KiB)
+   */
+  chunkSize?: number;
+}
+
+export interface StreamDecryptionOptions {
+  /**
+   * Largest chunk the receiver will buffer before rejecting the stream (default 16 MiB)
+   */
+  maxChunkSize?: number;
+}
+
+type ByteSource = AsyncIterable<Uint8Array> | Iterable<Uint8Array>;
+
+/**
+ * Encrypted streams are a header followed by length-prefixed chunk records:
+ *
+ *   header: version (1) | seq (8) | salt (16)
+ *   chunk:  length (4) | flags (1) | ciphertext | tag (16)
+ *
+ * Each stream encrypts under its own key derived from the salt. Chunk nonces follow the
+ * STREAM construction: a chunk counter plus a final-chunk flag, so reordering, truncation
+ * and extension all fail authentication.
+ */
+const STREAM_VERSION = 0x01;
+const STREAM_HEADER_LENGTH = 25;
+const STREAM_FINAL = 0x01;
+const TAG_LENGTH = 16;
+
+function streamNonce(index: number, final: boolean): Buffer {
+  const nonce = Buffer.alloc(12);
+  nonce.writeUInt32BE(index, 7);
+  nonce[11] = final ? 1 : 0;
+  return nonce;
+}
+
+function deriveStreamKey(key: Buffer, salt: Buffer): Buffer {
+  return HKDF.derive(key, salt, createContextInfo('SubtylSocket-Stream'), 32);
+}
+
+/**
+ * Shared envelope handling for AEAD ciphers with 96-bit nonces and 128-bit tags
+ * Concrete plugins supply only the raw seal/open primitives
+ */
+export abstract class AEADEncryptionPlugin extends BaseEncryptionPlugin {
+  private readonly nonceMode: 'random' | 'counter';
+
+  constructor(algorithmName: string, keys?: EncryptionKeys, options?: EncryptionPluginOptions) {
+    // Keys are set once the nonce mode is known, so setKeys() can check them
+    super(algorithmName, undefined, options);
+    this.nonceMode = options?.nonceMode ?? 'random';
+    if (keys) {
+      this.setKeys(keys);
+    }
+  }
+
+  /**
+   * Sets the encryption keys; with counter nonces, only send keys whose epoch is unused are
+   * accepted, since sequence numbers restart at zero and would repeat nonces under the same IV
+   */
+  setKeys(keys: EncryptionKeys): void {
+    const claimsCounter = this.nonceMode === 'counter' && keys.send?.iv !== undefined;
+    if (claimsCounter && keys.send?.epoch?.used) {
+      throw new Error('Counter nonces require fresh keys; these send keys were already used');
+    }
+    super.setKeys(keys);
+    if (claimsCounter) {
+      keys.send!.epoch!.used = true;
+    }
+  }
+
+  /**
+   * Encrypts and authenticates plaintext under the given key and nonce
+   */
+  protected abstract seal(
+    _key: Buffer,
+    _iv: Buffer,
+    _plaintext: Buffer,
+    _aad: Buffer,
+  ): { ciphertext: Buffer; tag: Buffer };
+
+  /**
+   * Verifies and decrypts ciphertext, throwing if authentication fails
+   */
+  protected abstract open(
+    _key: Buffer,
+    _iv: Buffer,
+    _ciphertext: Buffer,
+    _tag: Buffer,
+    _aad: Buffer,
+  ): Buffer;
+
+  /**
+   * Encrypts plaintext under the send key
+   */
+  encrypt(plaintext: string, context?: EncryptionContext): AEADResult {
+    return this.encryptBytes(Buffer.from(plaintext, 'utf8'), context);
+  }
+
+  /**
+   * Decrypts ciphertext under the receive key
+   */
+  decrypt(encrypted: EncryptionResult, context?: EncryptionContext): string {
+    return this.decryptBytes(encrypted, context).toString('utf8');
+  }
+
+  /**
+   * Encrypts bytes under the send key
+   */
+  encryptBytes(plaintext: Buffer, context?: EncryptionContext): AEADResult {
+    const { ciphertext, iv, tag } = this.sealBytes(plaintext, context);
+
+    const metadata: AEADResult['metadata'] = { tag: tag.toString('base64') };
+    if (iv) {
+      metadata.iv = iv.toString('base64');
+    }
+
+    return { data: ciphertext.toString('base64'), metadata };
+  }
+
+  /**
+   * Decrypts bytes under the receive key
+   */
+  decryptBytes(encrypted: EncryptionResult, context?: EncryptionContext): Buffer {
+    const { iv, tag } = encrypted.metadata ?? {};
+    if (!tag) {
+      throw new Error(`Missing required metadata for ${this.algorithmName} decryption`);
+    }
+
+    const sealed: SealedBytes = {
+      ciphertext: Buffer.from(encrypted.data, 'base64'),
+      tag: Buffer.from(tag, 'base64'),
+    };
+    if (iv) {
+      sealed.iv = Buffer.from(iv, 'base64');
+    }
+    return this.openBytes(sealed, context);
+  }
+
+  /**
+   * Encrypts text or bytes under the send key, leaving the result as raw bytes
+   * Counter nonces apply only to sequenced messages; anything else gets a fresh random 96-bit IV
+   */
+  protected sealBytes(plaintext: string | Buffer, context?: EncryptionContext): SealedBytes {
+    const { encryptionKey, iv: staticIv } = this.getSendKeys();
+
+    const useCounter = this.nonceMode === 'counter' && context !== undefined;
+    if (useCounter && !staticIv) {
+      throw new Error('Counter nonces require a per-direction IV');
+    }
+
+    const iv = useCounter ? counterNonce(staticIv!, context.seq) : randomBytes(12);
+    const { ciphertext, tag } = this.seal(
+      encryptionKey,
+      iv,
+      typeof plaintext === 'string' ? Buffer.from(plaintext, 'utf8') : plaintext,
+      this.encodeAdditionalData(context),
+    );
+
+    return useCounter ? { ciphertext, tag } : { ciphertext, iv, tag };
+  }
+
+  /**
+   * Decrypts raw bytes under the receive key, rebuilding counter nonces when no IV was sent
+   * Text comes back as its UTF-8 bytes, as it went in
+   */
+  protected openBytes(sealed: SealedBytes, context?: EncryptionContext): Buffer {
+    const { encryptionKey, iv: staticIv } = this.getReceiveKeys();
+
+    if (!sealed.iv && !(staticIv && context)) {
+      throw new Error(`Missing required metadata for ${this.algorithmName} decryption`);
+    }
+
+    const iv = sealed.iv ?? counterNonce(staticIv!, context!.seq);
+    return this.open(
+      encryptionKey,
+      iv,
+      sealed.ciphertext,
+      sealed.tag,
+      this.encodeAdditionalData(context),
+    );
+  }
+
+  /**
+   * Encrypts a byte source chunk by chunk, yielding the stream header and then one record per chunk
+   * Accepts any (async) iterable of bytes, Node Readable streams included
+   */
+  async *encryptStream(
+    source: ByteSource,
+    options: StreamEncryptionOptions = {},
+  ): AsyncGenerator<Buffer> {
+    const chunkSize = options.chunkSize ?? 64 * 1024;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new Error('Stream chunk size must be a positive integer');
+    }
+
+    // The header and every chunk count against the rekey policy, and any key update the policy
+    // sends applies to later messages; the stream's own key is fixed when it starts
+    this.chargeKeyUsage(0, 'binary');
+    const context = this.nextSendContext('encrypted-stream');
+    const aad = this.encodeAdditionalData(context);
+    const salt = randomBytes(16);
+    const key = deriveStreamKey(this.getSendKeys().encryptionKey, salt);
+
+    const header = Buffer.alloc(STREAM_HEADER_LENGTH);
+    header[0] = STREAM_VERSION;
+    header.writeBigUInt64BE(BigInt(context.seq), 1);
+    salt.copy(header, 9);
+
+    let index = 0;
+    const sealChunk = (plaintext: Buffer, final: boolean): Buffer => {
+      if (index > 0xffffffff) {
+        throw new Error('Stream exceeds the maximum number of chunks');
+      }
+      this.chargeKeyUsage(plaintext.length, 'binary');
+      const { ciphertext, tag } = this.seal(key, streamNonce(index++, final), plaintext, aad);
+      const prefix = Buffer.alloc(5);
+      prefix.writeUInt32BE(1 + ciphertext.length + tag.length);
+      prefix[4] = final ? STREAM_FINAL : 0;
+      return Buffer.concat([prefix, ciphertext, tag]);
+    };
+
+    try {
+      yield header;
+
+      let pending = Buffer.alloc(0);
+      for await (const data of source) {
+        pending = Buffer.concat([pending, data]);
+        // Hold back at least one byte so the last chunk can carry the final flag
+        while (pending.length > chunkSize) {
+          yield sealChunk(pending.subarray(0, chunkSize), false);
+          pending = pending.subarray(chunkSize);
+        }
+      }
+      yield sealChunk(pending, true);
+    } finally {
+      key.fill(0);
+    }
+  }
+
+  /**
+   * Decrypts a stream produced by encryptStream(), yielding plaintext chunks as they verify
+   * Record boundaries need not be preserved; throws if the stream is reordered, truncated or extended
+   */
+  async *decryptStream(
+    source: ByteSource,
+    options: StreamDecryptionOptions = {},
+  ): AsyncGenerator<Buffer> {
+    const maxChunkSize = options.maxChunkSize ?? 16 * 1024 * 1024;
+
+    let stream: { key: Buffer; aad: Buffer; accept: () => void } | null = null;
+    let pending = Buffer.alloc(0);
+    let index = 0;
+    let finished = false;
+
+    try {
+      for await (const data of source) {
+        pending = Buffer.concat([pending, data]);
+
+        if (!stream) {
+          if (pending.length < STREAM_HEADER_LENGTH) {
+            continue;
+          }
+          stream = this.openStreamHeader(pending.subarray(0, STREAM_HEADER_LENGTH));
+          pending = pending.subarray(STREAM_HEADER_LENGTH);
+        }
+
+        while (pending.length > 0) {
+          if (finished) {
+            throw new Error('Data after final stream chunk');
+          }
+          if (pending.length < 4) {
+            break;
+          }
+
+          const length = pending.readUInt32BE(0);
+          if (length < 1 + TAG_LENGTH || length > 1 + maxChunkSize + TAG_LENGTH) {
+            throw new Error('Malformed stream chunk');
+          }
+          if (pending.length < 4 + length) {
+            break;
+          }
+
+          const flags = pending[4]!;
+          if (flags & ~STREAM_FINAL) {
+            throw new Error('Malformed stream chunk');
+          }
+          const final = flags === STREAM_FINAL;
+          const body = pending.subarray(5, 4 + length);
+          const plaintext = this.open(
+            stream.key,
+            streamNonce(index, final),
+            body.subarray(0, body.length - TAG_LENGTH),
+            body.subarray(body.length - TAG_LENGTH),
+            stream.aad,
+          );
+
+          if (index === 0) {
+            stream.accept();
+          }
+          index++;
+          finished = final;
+          pending = pending.subarray(4 + length);
+
+          yield plaintext;
+        }
+      }
+
+      if (!finished) {
+        throw new Error('Stream truncated');
+      }
+    } finally {
+      stream?.key.fill(0);
+    }
+  }
+
+  private openStreamHeader(header: Buffer): { key: Buffer; aad: Buffer; accept: () => void } {
+    if (header[0] !== STREAM_VERSION) {
+      throw new Error(`Unsupported stream version: ${header[0]}`);
+    }
+    const seq = header.readBigUInt64BE(1);
+    if (seq > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error('Malformed stream header');
+    }
+
+    const { context, accept } = this.receiveContext('encrypted-stream', Number(seq));
+    return {
+      key: deriveStreamKey(this.getReceiveKeys().encryptionKey, header.subarray(9)),
+      aad: this.encodeAdditionalData(context),
+      accept,
+    };
+  }
+}
@@ -4,9 +4,87 @@
  * Unauthorized copying, distribution, or use is strictly prohibited.
  */
 
+import { EventEmitter } from 'events';
+import { canonicalize, ratchetTrafficKeys } from './crypto-utils.ts';
+import {
+  DecryptionError,
+  KeyLimitExceededError,
+  MessageParseError,
+  SubtylSocketError,
+  type KeyLimit,
+} from './errors.ts';
+import { ReplayWindow } from './ReplayWindow.ts';
+import {
+  fromSealedBytes,
+  isBinaryFrame,
+  readFrame,
+  toSealedBytes,
+  writeFrame,
+  type SealedBytes,
+} from './binary-frame.ts';
+import { type PaddingPolicy } from './padding.ts';
+import { type CompressionOptions } from './compression.ts';
+import {
+  CompressionTransform,
+  PaddingTransform,
+  isTransformHeader,
+  type MessageTransform,
+  type TransformRecord,
+} from './transforms.ts';
+import {
+  CborSerializer,
+  JsonSerializer,
+  MAX_SERIALIZER_ID_LENGTH,
+  MessagePackSerializer,
+  type Serializer,
+} from './serializers.ts';
+import {
+  assertMessageSize,
+  isJsonObject,
+  parseJson,
+  resolveParseLimits,
+  type ParseLimits,
+} from './safe-json.ts';
+
+export interface DirectionalKeys {
+  encryptionKey: Buffer;
+  authenticationKey: Buffer;
+  /**
+   * Static IV for counter nonces; derived by the handshake, never shared between directions
+   */
+  iv?: Buffer;
+  /**
+   * Usage state of these send keys, shared by every copy of them
+   * The handshake and each key update start a new epoch; keys made by hand get one from setKeys()
+   */
+  epoch?: KeyEpoch;
+}
+
+/**
+ * One epoch of send keys: those a handshake derives, or those a key update ratchets to
+ */
+export interface KeyEpoch {
+  /**
+   * Set once any plugin has sent under the keys, or claimed them for counter nonces
+   */
+  used: boolean;
+}
+
 export interface EncryptionKeys {
   encryptionKey: Buffer;
   authenticationKey: Buffer;
+  /**
+   * Keys for messages this side sends and receives
+   * When present they take precedence over the shared keys, so a reflected message fails to decrypt
+   */
+  send?: DirectionalKeys;
+  receive?: DirectionalKeys;
+  /**
+   * Session these keys belong to, and which end of it we are
+   * Both are authenticated with every message so ciphertexts cannot be moved between sessions or directions
+   */
+  sessionId?: string;
+  role?: 'client' | 'server';
 }
 
 export interface EncryptionResult {
@@ -14,24 +92,333 @@ export interface EncryptionResult {
   metadata?: Record<string, any>;
 }
 
+export type MessageDirection = 'client-to-server' | 'server-to-client';
+
+/**
+ * Envelope fields and session binding that plugins authenticate alongside the ciphertext
+ * AEAD plugins pass encodeAdditionalData(context) as additional data; custom plugins may MAC it
+ */
+export interface EncryptionContext {
+  type: string;
+  algorithm: string;
+  seq: number;
+  sessionId?: string;
+  direction?: MessageDirection;
+  binary?: boolean;
+  transforms?: TransformRecord[];
+  serializer?: string;
+}
+
+/**
+ * Usage limits for one generation of send keys
+ * Defaults to 2^32 messages, the safe bound for random 96-bit nonces under one key
+ */
+export interface RekeyPolicy {
+  maxMessages?: number;
+  maxBytes?: number;
+  maxKeyAgeMs?: number;
+  /**
+   * Send a key update when a limit is reached (default), or refuse to encrypt further
+   * Updates also fall back to refusal when nothing listens for 'key-update' to deliver them
+   */
+  autoUpdate?: boolean;
+}
+
+export interface KeyLimitEvent {
+  limit: KeyLimit;
+  action: 'update' | 'refuse';
+  messages: number;
+  bytes: number;
+  keyAgeMs: number;
+  generation: number;
+}
+
+export interface EncryptionPluginOptions {
+  /**
+   * How long keys replaced by a key update remain usable for decrypting in-flight messages
+   * Defaults to 5000ms; 0 disables the grace window
+   */
+  keyUpdateGraceMs?: number;
+  rekeyPolicy?: RekeyPolicy;
+  /**
+   * How many sequence numbers behind the highest seen may still arrive out of order (default 64)
+   */
+  replayWindowSize?: number;
+  /**
+   * How AEAD plugins choose nonces: fresh random IVs sent with each message (default),
+   * or the send IV XOR the sequence number, which needs no IV on the wire
+   */
+  nonceMode?: 'random' | 'counter';
+  /**
+   * Once keys are set, reject unencrypted and undecryptable messages with a DecryptionError
+   * (default); false passes them through as raw text
+   */
+  strict?: boolean;
+  /**
+   * Pads each message before encryption so its ciphertext length does not reveal its exact size
+   */
+  padding?: PaddingPolicy;
+  /**
+   * Compresses messages before encryption; off by default
+   */
+  compression?: CompressionOptions;
+  /**
+   * Stages applied in order to each outgoing plaintext before encryption, and undone in reverse
+   * on receive; an alternative to the compression and padding shorthands, which build
+   * the chain [compress, pad]
+   */
+  transforms?: readonly MessageTransform[];
+  /**
+   * Encodes outgoing messages into plaintext bytes (default JSON)
+   * Messages from peers using the built-in MessagePack and CBOR serializers are always decoded
+   */
+  serializer?: Serializer;
+  /**
+   * Size, depth and string length limits for incoming messages, enforced before decryption
+   * (defaults 16 MiB, 64 levels, no string limit beyond the size)
+   */
+  parseLimits?: ParseLimits;
+}
+
 export interface PluginMessage {
   type: string;
   algorithm: string;
   payload: any;
+  seq?: number;
+  /**
+   * Set when the plaintext is raw bytes rather than JSON text
+   */
+  binary?: boolean;
+  /**
+   * Stages applied to the plaintext before encryption, in order
+   */
+  transforms?: TransformRecord[];
+  /**
+   * Id of the serializer that encoded the plaintext; absent for JSON
+   */
+  serializer?: string;
   encrypted?: EncryptionResult;
 }
 
+/**
+ * Envelope fields as they arrive, each checked before it is used
+ */
+type UncheckedEnvelope = Partial<Record<keyof PluginMessage, unknown>>;
+
+/**
+ * An incoming message read by readIncomingMessage(), before any decryption
+ */
+export interface IncomingMessage {
+  raw: string | Buffer;
+  /**
+   * Whether the message is a binary frame rather than JSON text
+   */
+  binary: boolean;
+  /**
+   * The decoded frame or parsed JSON, unchecked; undefined when the message was neither
+   */
+  parsed?: unknown;
+  /**
+   * Raw ciphertext of a binary frame; JSON envelopes carry theirs base64-encoded in parsed
+   */
+  sealed?: SealedBytes;
+}
+
+/**
+ * Parses a message as a binary frame or JSON without decrypting anything
+ * Input breaking the limits raises a MessageParseError; other unparsable input is left for
+ * the plugin to reject or pass through, according to its strict setting
+ */
+export function readIncomingMessage(
+  rawMessage: string | Buffer,
+  limits: Required<ParseLimits>,
+): IncomingMessage {
+  // Oversized input is refused in any mode, before it is even decoded
+  if (Buffer.isBuffer(rawMessage)) {
+    assertMessageSize(rawMessage.length, limits);
+  }
+  const binary = isBinaryFrame(rawMessage);
+
+  try {
+    if (binary) {
+      const { message, sealed } = readFrame(rawMessage, limits);
+      return { raw: rawMessage, binary, parsed: message, sealed };
+    }
+    return { raw: rawMessage, binary, parsed: parseJson(rawMessage.toString(), limits) };
+  } catch (error) {
+    if (error instanceof MessageParseError && error.reason !== 'invalid-json') {
+      throw error;
+    }
+    return { raw: rawMessage, binary };
+  }
+}
+
+/**
+ * An envelope with its sequence number allocated and plaintext transformed, not yet encrypted
+ */
+interface PreparedEnvelope {
+  message: PluginMessage;
+  context: EncryptionContext;
+  plaintext: string | Buffer;
+}
+
+/**
+ * Plaintext layout for binary messages: header length (4) | JSON header | raw payload bytes
+ * A bare Buffer message has an empty header
+ */
+function encodeBinaryPlaintext(header: object | null, payload: Uint8Array): Buffer {
+  const headerBytes = header ? Buffer.from(JSON.stringify(header), 'utf8') : Buffer.alloc(0);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(headerBytes.length);
+  return Buffer.concat([length, headerBytes, payload]);
+}
+
+function decodeBinaryPlaintext(
+  plaintext: Buffer,
+  limits: Required<ParseLimits>,
+): Buffer | Record<string, unknown> {
+  if (plaintext.length < 4 || plaintext.readUInt32BE(0) > plaintext.length - 4) {
+    throw new Error('Malformed binary message');
+  }
+  const headerLength = plaintext.readUInt32BE(0);
+  const payload = Buffer.from(plaintext.subarray(4 + headerLength));
+  if (headerLength === 0) {
+    return payload;
+  }
+  const header = parseJson(plaintext.subarray(4, 4 + headerLength), limits);
+  if (!isJsonObject(header)) {
+    throw new Error('Malformed binary message');
+  }
+  return { ...header, payload };
+}
+
+/**
+ * The encrypted field of a JSON envelope, checked before it is handed to decrypt()
+ */
+function checkEncryptionResult(value: unknown): EncryptionResult {
+  if (!isJsonObject(value) || typeof value.data !== 'string') {
+    throw new Error('Malformed envelope');
+  }
+  const { data, metadata } = value;
+  if (metadata !== undefined && !isJsonObject(metadata)) {
+    throw new Error('Malformed envelope');
+  }
+  return metadata === undefined ? { data } : { data, metadata };
+}
+
+function copyDirectionalKeys(keys: DirectionalKeys): DirectionalKeys {
+  const copy: DirectionalKeys = {
+    encryptionKey: Buffer.from(keys.encryptionKey),
+    authenticationKey: Buffer.from(keys.authenticationKey),
+  };
+  if (keys.iv) {
+    copy.iv = Buffer.from(keys.iv);
+  }
+  // Shared, not copied, so every plugin holding the keys sees the others' use of them
+  if (keys.epoch) {
+    copy.epoch = keys.epoch;
+  }
+  return copy;
+}
+
+/**
+ * Copies all key material into buffers the plugin owns, so ratcheting and zeroizing never touch
+ * the caller's buffers, which other plugins built from the same handshake may still be using
+ */
+function copyEncryptionKeys(keys: EncryptionKeys): EncryptionKeys {
+  const copy: EncryptionKeys = { ...keys, ...copyDirectionalKeys(keys) };
+  if (keys.send) {
+    copy.send = copyDirectionalKeys(keys.send);
+  }
+  if (keys.receive) {
+    copy.receive = copyDirectionalKeys(keys.receive);
+  }
+  return copy;
+}
+
+function isSerializerId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_SERIALIZER_ID_LENGTH;
+}
+
+/**
+ * The outgoing transform chain: explicit transforms, or the chain the shorthands describe
+ */
+function buildTransforms(options: EncryptionPluginOptions): readonly MessageTransform[] {
+  if (options.transforms) {
+    if (options.compression || options.padding) {
+      throw new Error('Use either transforms or the compression and padding shorthands');
+    }
+    return options.transforms;
+  }
+
+  const transforms: MessageTransform[] = [];
+  if (options.compression) {
+    transforms.push(new CompressionTransform(options.compression));
+  }
+  if (options.padding) {
+    transforms.push(new PaddingTransform(options.padding));
+  }
+  return transforms;
+}
+
 /**
  * Abstract base class for encryption plugins
  * Provides a common interface for different encryption algorithms
  */
-export abstract class BaseEncryptionPlugin {
+export abstract class BaseEncryptionPlugin extends EventEmitter {
   protected keys: EncryptionKeys | null = null;
   protected enabled: boolean = false;
   protected readonly algorithmName: string;
+  private readonly keyUpdateGraceMs: number;
+  private readonly rekeyPolicy: Required<Omit<RekeyPolicy, 'autoUpdate'>> & { autoUpdate: boolean };
+  private readonly replayWindowSize: number;
+  private readonly strict: boolean;
+  private readonly transforms: readonly MessageTransform[];
+  private readonly receiveTransforms: Map<string, MessageTransform>;
+  private readonly serializer?: Serializer;
+  private readonly serializers: Map<string, Serializer>;
+  private readonly parseLimits: Required<ParseLimits>;
+  private replayWindow: ReplayWindow;
+  private sendSeq = 0;
+  private sentMessages = 0;
+  private sentBytes = 0;
+  private sendKeysCreatedAt = Date.now();
+  private sendGeneration = 0;
+  private receiveGeneration = 0;
+  private previousReceiveKeys: { keys: DirectionalKeys; expiresAt: number } | null = null;
+  private receiveKeysOverride: DirectionalKeys | null = null;
 
-  constructor(algorithmName: string, keys?: EncryptionKeys) {
+  constructor(algorithmName: string, keys?: EncryptionKeys, options: EncryptionPluginOptions = {}) {
+    super();
     this.algorithmName = algorithmName;
+    this.keyUpdateGraceMs = options.keyUpdateGraceMs ?? 5000;
+    this.replayWindowSize = options.replayWindowSize ?? 64;
+    this.strict = options.strict ?? true;
+    this.transforms = buildTransforms(options);
+    this.receiveTransforms = new Map<string, MessageTransform>([
+      // Compressed and padded messages are accepted without configuration
+      ['compress', new CompressionTransform({ algorithm: 'deflate' })],
+      ['pad', new PaddingTransform()],
+      ...this.transforms.map(transform => [transform.name, transform] as const),
+    ]);
+    // JSON keeps its own wire format, so it is never recorded
+    this.serializer = options.serializer?.id === 'json' ? undefined : options.serializer;
+    if (this.serializer && !isSerializerId(this.serializer.id)) {
+      throw new Error(`Invalid serializer id: ${this.serializer.id}`);
+    }
+    this.serializers = new Map<string, Serializer>(
+      [new JsonSerializer(), new MessagePackSerializer(), new CborSerializer(), this.serializer]
+        .filter((serializer): serializer is Serializer => serializer !== undefined)
+        .map(serializer => [serializer.id, serializer]),
+    );
+    this.parseLimits = resolveParseLimits(options.parseLimits);
+    this.replayWindow = new ReplayWindow(this.replayWindowSize);
+    this.rekeyPolicy = {
+      maxMessages: options.rekeyPolicy?.maxMessages ?? 2 ** 32,
+      maxBytes: options.rekeyPolicy?.maxBytes ?? Infinity,
+      maxKeyAgeMs: options.rekeyPolicy?.maxKeyAgeMs ?? Infinity,
+      autoUpdate: options.rekeyPolicy?.autoUpdate ?? true,
+    };
     if (keys) {
       this.setKeys(keys);
     }
@@ -39,10 +426,22 @@ export abstract class BaseEncryptionPlugin {
 
   /**
    * Sets the encryption keys derived from secure handshake
+   * The plugin keeps its own copy; the caller's buffers are never changed
    */
   setKeys(keys: EncryptionKeys): void {
-    this.keys = keys;
+    // Send keys made by hand get their epoch on the caller's object, so later copies share it
+    if (keys.send && !keys.send.epoch) {
+      keys.send.epoch = { used: false };
+    }
+    this.clearKeys();
+    this.keys = copyEncryptionKeys(keys);
     this.enabled = true;
+    this.sendGeneration = 0;
+    this.receiveGeneration = 0;
+    this.previousReceiveKeys = null;
+    this.sendSeq = 0;
+    this.replayWindow = new ReplayWindow(this.replayWindowSize);
+    this.resetKeyUsage();
   }
 
   /**
@@ -66,73 +465,597 @@ export abstract class BaseEncryptionPlugin {
     return this.algorithmName;
   }
 
+  /**
+   * Keys for encrypting outgoing messages
+   */
+  protected getSendKeys(): DirectionalKeys {
+    if (!this.keys) {
+      throw new Error('Encryption keys not set');
+    }
+    return this.keys.send ?? this.keys;
+  }
+
+  /**
+   * Keys for decrypting incoming messages
+   */
+  protected getReceiveKeys(): DirectionalKeys {
+    if (!this.keys) {
+      throw new Error('Encryption keys not set');
+    }
+    return this.receiveKeysOverride ?? this.keys.receive ?? this.keys;
+  }
+
+  /**
+   * Current key generations; each key update advances one direction by one
+   */
+  getKeyGeneration(): { send: number; receive: number } {
+    return { send: this.sendGeneration, receive: this.receiveGeneration };
+  }
+
+  /**
+   * Builds a key-update message and ratchets our send keys
+   * The message is encrypted under the outgoing keys and must be sent before any later message
+   */
+  createKeyUpdate(): string {
+    return this.rotateSendKeys(prepared => this.encodeEnvelope(prepared));
+  }
+
+  /**
+   * Binary frame counterpart of createKeyUpdate()
+   */
+  createKeyUpdateFrame(): Buffer {
+    return this.rotateSendKeys(prepared => this.encodeFrame(prepared));
+  }
+
+  /**
+   * Encrypts a key-update message under the current send keys with the given encoder,
+   * then ratchets them
+   */
+  private rotateSendKeys<T>(encode: (_prepared: PreparedEnvelope) => T): T {
+    if (!this.isEnabled()) {
+      throw new Error('Cannot update keys while encryption is not enabled');
+    }
+
+    const generation = this.sendGeneration + 1;
+    const message = encode(
+      this.prepareEnvelope('key-update', JSON.stringify({ type: 'key-update', generation })),
+    );
+
+    const previous = this.getSendKeys();
+    this.keys = {
+      ...this.keys!,
+      send: { ...ratchetTrafficKeys(previous), epoch: { used: false } },
+    };
+    this.sendGeneration = generation;
+    this.resetKeyUsage();
+    this.zeroizeIfUnused(previous);
+
+    return message;
+  }
+
+  /**
+   * Builds an envelope under the next sequence number and applies the transforms
+   * Transformed and serialized plaintext is always encrypted as bytes
+   */
+  private prepareEnvelope(
+    type: string,
+    plaintext: string | Buffer,
+    transforms: readonly MessageTransform[] = [],
+    messageType?: string,
+    serializer?: string,
+  ): PreparedEnvelope {
+    const seq = this.nextSendSeq();
+
+    const message: PluginMessage = { type, algorithm: this.algorithmName, payload: null, seq };
+    if (serializer) {
+      message.serializer = serializer;
+    } else if (typeof plaintext !== 'string') {
+      message.binary = true;
+    }
+
+    let transformed: Buffer | null = null;
+    const applied: TransformRecord[] = [];
+    for (const transform of transforms) {
+      const result = transform.encode(transformed ?? Buffer.from(plaintext), messageType);
+      if (result) {
+        transformed = result.data;
+        applied.push(
+          result.params
+            ? { name: transform.name, params: result.params }
+            : { name: transform.name },
+        );
+      }
+    }
+    if (applied.length > 0) {
+      message.transforms = applied;
+    }
+
+    const context = this.createContext(type, this.algorithmName, seq, 'send', message);
+    return { message, context, plaintext: transformed ?? plaintext };
+  }
+
+  /**
+   * Encrypts a prepared envelope as JSON text, with base64 ciphertext
+   */
+  private encodeEnvelope({ message, context, plaintext }: PreparedEnvelope): string {
+    message.encrypted =
+      typeof plaintext === 'string'
+        ? this.encrypt(plaintext, context)
+        : this.encryptBytes(plaintext, context);
+    return JSON.stringify(message);
+  }
+
+  /**
+   * Encrypts a prepared envelope as a binary frame, with raw ciphertext
+   */
+  private encodeFrame({ message, context, plaintext }: PreparedEnvelope): Buffer {
+    return writeFrame(message, this.sealBytes(plaintext, context));
+  }
+
+  /**
+   * Counts a message of the given size against the rekey policy before it is encrypted
+   * Subclasses that seal outside processOutgoingMessage(), such as streams, call it for each record
+   */
+  protected chargeKeyUsage(byteLength: number, format: 'json' | 'binary'): void {
+    this.enforceKeyLimits(byteLength, format);
+    this.sentMessages++;
+    this.sentBytes += byteLength;
+  }
+
+  private resetKeyUsage(): void {
+    this.sentMessages = 0;
+    this.sentBytes = 0;
+    this.sendKeysCreatedAt = Date.now();
+  }
+
+  /**
+   * Applies the rekey policy before encrypting a message of the given size
+   * Emits 'key-limit' for monitoring and, when updating, 'key-update' with the frame to send first
+   */
+  private enforceKeyLimits(byteLength: number, format: 'json' | 'binary'): void {
+    const keyAgeMs = Date.now() - this.sendKeysCreatedAt;
+    let limit: KeyLimit | null = null;
+    if (this.sentMessages + 1 > this.rekeyPolicy.maxMessages) {
+      limit = 'messages';
+    } else if (this.sentBytes + byteLength > this.rekeyPolicy.maxBytes) {
+      limit = 'bytes';
+    } else if (keyAgeMs >= this.rekeyPolicy.maxKeyAgeMs) {
+      limit = 'age';
+    }
+    if (!limit) {
+      return;
+    }
+
+    const action =
+      this.rekeyPolicy.autoUpdate && this.listenerCount('key-update') > 0 ? 'update' : 'refuse';
+    const event: KeyLimitEvent = {
+      limit,
+      action,
+      messages: this.sentMessages,
+      bytes: this.sentBytes,
+      keyAgeMs,
+      generation: this.sendGeneration,
+    };
+    this.emit('key-limit', event);
+
+    if (action === 'refuse') {
+      throw new KeyLimitExceededError(limit);
+    }
+    const frame = format === 'binary' ? this.createKeyUpdateFrame() : this.createKeyUpdate();
+    this.emit('key-update', frame, event);
+  }
+
+  /**
+   * Verifies a received key-update message and ratchets our receive keys
+   * The replaced keys stay usable for the grace window to cover in-flight messages
+   */
+  private applyKeyUpdate(decrypt: () => string | Buffer): { type: string; generation: number } {
+    let plaintext: string | Buffer;
+    try {
+      plaintext = decrypt();
+    } catch {
+      throw new DecryptionError('authentication-failed');
+    }
+
+    const control = parseJson(plaintext, this.parseLimits);
+    const generation = this.receiveGeneration + 1;
+    if (
+      !isJsonObject(control) ||
+      control.type !== 'key-update' ||
+      control.generation !== generation
+    ) {
+      throw new Error('Invalid key update');
+    }
+
+    const previous = this.getReceiveKeys();
+    this.discardPreviousReceiveKeys();
+    this.keys = { ...this.keys!, receive: ratchetTrafficKeys(previous) };
+    this.receiveGeneration = generation;
+
+    if (this.keyUpdateGraceMs > 0) {
+      this.previousReceiveKeys = { keys: previous, expiresAt: Date.now() + this.keyUpdateGraceMs };
+    } else {
+      this.zeroizeIfUnused(previous);
+    }
+
+    return { type: 'key-update', generation };
+  }
+
+  /**
+   * Decrypts with the current receive keys, falling back to the pre-update keys within the grace window
+   */
+  private decryptIncoming<T>(decrypt: () => T): T {
+    try {
+      return decrypt();
+    } catch {
+      if (this.previousReceiveKeys && Date.now() > this.previousReceiveKeys.expiresAt) {
+        this.discardPreviousReceiveKeys();
+      }
+      if (!this.previousReceiveKeys) {
+        throw new DecryptionError('authentication-failed');
+      }
+
+      this.receiveKeysOverride = this.previousReceiveKeys.keys;
+      try {
+        return decrypt();
+      } catch {
+        throw new DecryptionError('authentication-failed');
+      } finally {
+        this.receiveKeysOverride = null;
+      }
+    }
+  }
+
+  private discardPreviousReceiveKeys(): void {
+    if (this.previousReceiveKeys) {
+      const { keys } = this.previousReceiveKeys;
+      this.previousReceiveKeys = null;
+      this.zeroizeIfUnused(keys);
+    }
+  }
+
+  /**
+   * Zeroizes replaced keys unless the other direction still uses them (shared-key mode)
+   */
+  private zeroizeIfUnused(keys: DirectionalKeys): void {
+    const inUse = [this.keys?.send ?? this.keys, this.keys?.receive ?? this.keys];
+    if (this.previousReceiveKeys) {
+      inUse.push(this.previousReceiveKeys.keys);
+    }
+
+    if (!inUse.some(current => current?.encryptionKey === keys.encryptionKey)) {
+      keys.encryptionKey.fill(0);
+      keys.authenticationKey.fill(0);
+      keys.iv?.fill(0);
+    }
+  }
+
   /**
    * Abstract method to encrypt plaintext
    * Must be implemented by concrete classes
    */
-  abstract encrypt(_plaintext: string): EncryptionResult;
+  abstract encrypt(_plaintext: string, _context?: EncryptionContext): EncryptionResult;
 
   /**
    * Abstract method to decrypt ciphertext
    * Must be implemented by concrete classes
    */
-  abstract decrypt(_encrypted: EncryptionResult): string;
+  abstract decrypt(_encrypted: EncryptionResult, _context?: EncryptionContext): string;
+
+  /**
+   * Encrypts raw bytes; by default they pass through encrypt() as base64 text
+   * Plugins that work on bytes natively should override this and decryptBytes() together
+   */
+  encryptBytes(plaintext: Buffer, context?: EncryptionContext): EncryptionResult {
+    return this.encrypt(plaintext.toString('base64'), context);
+  }
+
+  /**
+   * Decrypts ciphertext produced by encryptBytes()
+   */
+  decryptBytes(encrypted: EncryptionResult, context?: EncryptionContext): Buffer {
+    return Buffer.from(this.decrypt(encrypted, context), 'base64');
+  }
+
+  /**
+   * Encrypts text or bytes into the raw parts of a binary frame
+   * By default decodes the base64 of encrypt() or encryptBytes(); plugins that seal bytes
+   * natively override this and openBytes() together to skip the round trip
+   */
+  protected sealBytes(plaintext: string | Buffer, context: EncryptionContext): SealedBytes {
+    const encrypted =
+      typeof plaintext === 'string'
+        ? this.encrypt(plaintext, context)
+        : this.encryptBytes(plaintext, context);
+    return toSealedBytes(encrypted, this.algorithmName);
+  }
+
+  /**
+   * Decrypts the parts produced by sealBytes(); text comes back as its UTF-8 bytes
+   */
+  protected openBytes(sealed: SealedBytes, context: EncryptionContext, text: boolean): Buffer {
+    const encrypted = fromSealedBytes(sealed);
+    return text
+      ? Buffer.from(this.decrypt(encrypted, context), 'utf8')
+      : this.decryptBytes(encrypted, context);
+  }
+
+  /**
+   * Encodes the context as additional authenticated data; empty when there is none
+   */
+  protected encodeAdditionalData(context?: EncryptionContext): Buffer {
+    return context ? canonicalize(context) : Buffer.alloc(0);
+  }
 
   /**
    * Processes an outgoing message, encrypting if enabled
+   * Buffer/Uint8Array messages and payloads are encrypted as raw bytes and come back as Buffers
    */
   processOutgoingMessage(message: any): string {
     if (!this.isEnabled()) {
       return typeof message === 'string' ? message : JSON.stringify(message);
     }
 
-    const messageStr = typeof message === 'string' ? message : JSON.stringify(message);
-    const encrypted = this.encrypt(messageStr);
+    return this.encodeEnvelope(this.sealMessage(message, 'json'));
+  }
 
-    const pluginMessage: PluginMessage = {
-      type: 'encrypted-plugin-message',
-      algorithm: this.algorithmName,
-      payload: null,
-      encrypted,
-    };
+  /**
+   * Processes an outgoing message into a binary frame, for sending as a WebSocket binary message
+   * Unencrypted messages are sent as JSON bytes, which receivers tell apart from frames
+   */
+  processOutgoingFrame(message: unknown): Buffer {
+    if (!this.isEnabled()) {
+      return Buffer.from(typeof message === 'string' ? message : JSON.stringify(message));
+    }
+
+    return this.encodeFrame(this.sealMessage(message, 'binary'));
+  }
 
-    return JSON.stringify(pluginMessage);
+  private sealMessage(message: unknown, format: 'json' | 'binary'): PreparedEnvelope {
+    let plaintext: string | Buffer;
+    if (this.serializer) {
+      plaintext = this.serializer.serialize(message);
+    } else if (message instanceof Uint8Array) {
+      plaintext = encodeBinaryPlaintext(null, message);
+    } else if (isJsonObject(message) && message.payload instanceof Uint8Array) {
+      const { payload, ...header } = message;
+      plaintext = encodeBinaryPlaintext(header, payload);
+    } else {
+      plaintext = typeof message === 'string' ? message : JSON.stringify(message);
+    }
+
+    this.chargeKeyUsage(Buffer.byteLength(plaintext), format);
+
+    return this.prepareEnvelope(
+      'encrypted-plugin-message',
+      plaintext,
+      this.transforms,
+      isJsonObject(message) && typeof message.type === 'string' ? message.type : undefined,
+      this.serializer?.id,
+    );
   }
 
   /**
    * Processes an incoming message, decrypting if encrypted
+   * Accepts JSON text and binary frames alike; in strict mode, anything that is not a valid
+   * encrypted message raises a DecryptionError. Input breaking the parse limits always raises
+   * a MessageParseError
    */
   processIncomingMessage(rawMessage: string | Buffer): any {
-    const messageStr = rawMessage.toString();
+    return this.processParsedMessage(readIncomingMessage(rawMessage, this.parseLimits));
+  }
+
+  /**
+   * processIncomingMessage() for a message already read with readIncomingMessage(), so a
+   * PluginRegistry that inspected the envelope to dispatch it need not parse it again
+   */
+  processParsedMessage(incoming: IncomingMessage): unknown {
+    const { raw, binary, parsed, sealed } = incoming;
+    const strict = this.strict && this.isEnabled();
 
     try {
-      const parsed = JSON.parse(messageStr);
+      if (parsed === undefined) {
+        throw new DecryptionError(binary ? 'malformed' : 'unencrypted');
+      }
+      const envelope: UncheckedEnvelope = isJsonObject(parsed) ? parsed : {};
+      const encrypted = sealed ?? envelope.encrypted;
+      const decryptText = (context: EncryptionContext): string | Buffer =>
+        sealed
+          ? this.openBytes(sealed, context, true)
+          : this.decrypt(checkEncryptionResult(envelope.encrypted), context);
+      const decryptBytes = (context: EncryptionContext): Buffer =>
+        sealed
+          ? this.openBytes(sealed, context, false)
+          : this.decryptBytes(checkEncryptionResult(envelope.encrypted), context);
+
+      // Key updates are authenticated by decrypting under the current receive keys
+      if (envelope.type === 'key-update' && encrypted) {
+        if (!this.isEnabled()) {
+          throw new Error('Received key update but encryption not enabled');
+        }
+        if (envelope.algorithm !== this.algorithmName) {
+          throw new DecryptionError(
+            'algorithm-mismatch',
+            `expected ${this.algorithmName}, got ${String(envelope.algorithm)}`,
+          );
+        }
+        return this.acceptSequenced(envelope, context =>
+          this.applyKeyUpdate(() => decryptText(context)),
+        );
+      }
 
       // Check if this is an encrypted plugin message
-      if (parsed.type === 'encrypted-plugin-message' && parsed.encrypted) {
+      if (envelope.type === 'encrypted-plugin-message' && encrypted) {
         if (!this.isEnabled()) {
           throw new Error('Received encrypted message but encryption not enabled');
         }
 
         // Verify algorithm compatibility
-        if (parsed.algorithm && parsed.algorithm !== this.algorithmName) {
-          throw new Error(
-            `Algorithm mismatch: expected ${this.algorithmName}, got ${parsed.algorithm}`,
+        if (envelope.algorithm && envelope.algorithm !== this.algorithmName) {
+          throw new DecryptionError(
+            'algorithm-mismatch',
+            `expected ${this.algorithmName}, got ${String(envelope.algorithm)}`,
           );
         }
 
-        const decrypted = this.decrypt(parsed.encrypted);
-        return JSON.parse(decrypted);
+        // Every recorded stage must be one we can undo, checked before any decryption
+        const transforms = envelope.transforms ?? [];
+        if (!isTransformHeader(transforms)) {
+          throw new Error('Malformed transform header');
+        }
+        const stages = transforms.map(({ name }) => {
+          const transform = this.receiveTransforms.get(name);
+          if (!transform) {
+            throw new Error(`Unsupported message transform: ${name}`);
+          }
+          return transform;
+        });
+        let serializer: Serializer | undefined;
+        if (envelope.serializer !== undefined) {
+          serializer = isSerializerId(envelope.serializer)
+            ? this.serializers.get(envelope.serializer)
+            : undefined;
+          if (!serializer) {
+            throw new Error(`Unsupported serializer: ${String(envelope.serializer)}`);
+          }
+        }
+
+        return this.acceptSequenced(envelope, context => {
+          if (envelope.binary !== true && stages.length === 0 && !serializer) {
+            return parseJson(
+              this.decryptIncoming(() => decryptText(context)),
+              this.parseLimits,
+            );
+          }
+
+          let plaintext = this.decryptIncoming(() => decryptBytes(context));
+          for (let i = stages.length - 1; i >= 0; i--) {
+            plaintext = stages[i]!.decode(plaintext, transforms[i]!.params ?? {});
+          }
+          if (serializer) {
+            return serializer.deserialize(plaintext, this.parseLimits);
+          }
+          return envelope.binary === true
+            ? decodeBinaryPlaintext(plaintext, this.parseLimits)
+            : parseJson(plaintext, this.parseLimits);
+        });
+      }
+
+      if (strict) {
+        throw new DecryptionError('unencrypted');
       }
 
       // Return as-is if not encrypted
       return parsed;
-    } catch {
-      // If JSON parsing fails, return raw message
-      return messageStr;
+    } catch (error) {
+      // Typed errors such as replays are surfaced so they can be logged
+      if (error instanceof SubtylSocketError && (strict || !(error instanceof DecryptionError))) {
+        throw error;
+      }
+      if (strict) {
+        throw new DecryptionError('malformed', (error as Error).message);
+      }
+      // Outside strict mode, anything unreadable is returned raw
+      return binary ? raw : raw.toString();
     }
   }
 
+  /**
+   * Runs a decryption only if its sequence number passes the replay window,
+   * recording the number once the message has authenticated
+   */
+  private acceptSequenced<T>(
+    envelope: UncheckedEnvelope,
+    process: (_context: EncryptionContext) => T,
+  ): T {
+    const { type, algorithm, seq, transforms, serializer } = envelope;
+    if (typeof seq !== 'number') {
+      throw new Error('Missing sequence number');
+    }
+    if (
+      typeof type !== 'string' ||
+      typeof algorithm !== 'string' ||
+      (transforms !== undefined && !isTransformHeader(transforms)) ||
+      (serializer !== undefined && typeof serializer !== 'string')
+    ) {
+      throw new Error('Malformed envelope');
+    }
+
+    this.replayWindow.check(seq);
+    const result = process(
+      this.createContext(type, algorithm, seq, 'receive', {
+        binary: envelope.binary === true,
+        transforms,
+        serializer,
+      }),
+    );
+    this.replayWindow.accept(seq);
+
+    return result;
+  }
+
+  /**
+   * Allocates the next send sequence number for data a subclass frames itself, such as streams
+   */
+  protected nextSendContext(type: string): EncryptionContext {
+    return this.createContext(type, this.algorithmName, this.nextSendSeq(), 'send');
+  }
+
+  /**
+   * Allocates a sequence number and marks the send keys' epoch as used
+   */
+  private nextSendSeq(): number {
+    if (this.keys?.send?.epoch) {
+      this.keys.send.epoch.used = true;
+    }
+    return this.sendSeq++;
+  }
+
+  /**
+   * Replay-checks a sequence number received outside the envelope path
+   * Returns the context to authenticate against and a callback recording the number once verified
+   */
+  protected receiveContext(
+    type: string,
+    seq: number,
+  ): { context: EncryptionContext; accept: () => void } {
+    this.replayWindow.check(seq);
+    return {
+      context: this.createContext(type, this.algorithmName, seq, 'receive'),
+      accept: () => this.replayWindow.accept(seq),
+    };
+  }
+
+  /**
+   * Builds the authenticated context for a message we send or receive
+   */
+  private createContext(
+    type: string,
+    algorithm: string,
+    seq: number,
+    flow: 'send' | 'receive',
+    flags: Pick<EncryptionContext, 'binary' | 'transforms' | 'serializer'> = {},
+  ): EncryptionContext {
+    const context: EncryptionContext = { type, algorithm, seq };
+    if (flags.binary) {
+      context.binary = true;
+    }
+    if (flags.transforms && flags.transforms.length > 0) {
+      context.transforms = flags.transforms;
+    }
+    if (flags.serializer) {
+      context.serializer = flags.serializer;
+    }
+    if (this.keys?.sessionId !== undefined) {
+      context.sessionId = this.keys.sessionId;
+    }
+    if (this.keys?.role) {
+      const fromClient = (this.keys.role === 'client') === (flow === 'send');
+      context.direction = fromClient ? 'client-to-server' : 'server-to-client';
+    }
+    return context;
+  }
+
   /**
    * Creates a secure message wrapper for non-JSON payloads
    */
@@ -146,6 +1069,13 @@ export abstract class BaseEncryptionPlugin {
     return JSON.stringify(message);
   }
 
+  /**
+   * Binary frame counterpart of wrapMessage()
+   */
+  wrapFrame(type: string, payload: unknown): Buffer {
+    return this.processOutgoingFrame({ type, payload });
+  }
+
   /**
    * Extracts message type and payload from wrapped messages
    */
@@ -171,11 +1101,24 @@ export abstract class BaseEncryptionPlugin {
    * Can be overridden by subclasses for additional cleanup
    */
   destroy(): void {
+    this.clearKeys();
+    this.enabled = false;
+  }
+
+  private clearKeys(): void {
+    this.previousReceiveKeys?.keys.encryptionKey.fill(0);
+    this.previousReceiveKeys?.keys.authenticationKey.fill(0);
+    this.previousReceiveKeys?.keys.iv?.fill(0);
+    this.previousReceiveKeys = null;
+
     if (this.keys) {
-      this.keys.encryptionKey.fill(0);
-      this.keys.authenticationKey.fill(0);
+      for (const keys of [this.keys, this.keys.send, this.keys.receive]) {
+        keys?.encryptionKey.fill(0);
+        keys?.authenticationKey.fill(0);
+      }
+      this.keys.send?.iv?.fill(0);
+      this.keys.receive?.iv?.fill(0);
       this.keys = null;
     }
-    this.enabled = false;
   }
 }
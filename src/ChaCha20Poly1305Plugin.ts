@@ -0,0 +1,32 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import { type EncryptionKeys, type EncryptionPluginOptions } from './BaseEncryptionPlugin';
+import { AEADEncryptionPlugin } from './AEADEncryptionPlugin';
+import { chacha20Poly1305Open, chacha20Poly1305Seal } from './chacha20-poly1305';
+
+/**
+ * ChaCha20-Poly1305 implementation of the encryption plugin
+ * Preferred on hardware without AES acceleration
+ */
+export class ChaCha20Poly1305Plugin extends AEADEncryptionPlugin {
+  constructor(keys?: EncryptionKeys, options?: EncryptionPluginOptions) {
+    super('chacha20-poly1305', keys, options);
+  }
+
+  protected seal(
+    key: Buffer,
+    iv: Buffer,
+    plaintext: Buffer,
+    aad: Buffer,
+  ): { ciphertext: Buffer; tag: Buffer } {
+    return chacha20Poly1305Seal(key, iv, plaintext, aad);
+  }
+
+  protected open(key: Buffer, iv: Buffer, ciphertext: Buffer, tag: Buffer, aad: Buffer): Buffer {
+    return chacha20Poly1305Open(key, iv, ciphertext, tag, aad);
+  }
+}
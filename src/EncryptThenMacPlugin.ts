@@ -0,0 +1,146 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+import { constantTimeCompare } from './crypto-utils.ts';
+import {
+  BaseEncryptionPlugin,
+  type EncryptionContext,
+  type EncryptionKeys,
+  type EncryptionPluginOptions,
+  type EncryptionResult,
+} from './BaseEncryptionPlugin.ts';
+import { type SealedBytes } from './binary-frame.ts';
+
+export interface EncryptThenMacResult extends EncryptionResult {
+  data: string;
+  metadata: {
+    iv: string;
+    tag: string;
+  };
+}
+
+/**
+ * Computes HMAC-SHA256 over aad | iv | ciphertext | aad length in bits (64-bit big-endian)
+ * The trailing length keeps the boundary between associated data and ciphertext unambiguous
+ */
+function computeTag(key: Buffer, aad: Buffer, iv: Buffer, ciphertext: Buffer): Buffer {
+  const aadBits = Buffer.alloc(8);
+  aadBits.writeBigUInt64BE(BigInt(aad.length) * 8n);
+
+  return createHmac('sha256', key)
+    .update(aad)
+    .update(iv)
+    .update(ciphertext)
+    .update(aadBits)
+    .digest();
+}
+
+/**
+ * AES-256-CTR with HMAC-SHA256 (encrypt-then-MAC) implementation of the encryption plugin
+ * For environments where GCM is not permitted; encrypts under encryptionKey and
+ * authenticates under authenticationKey
+ */
+export class EncryptThenMacPlugin extends BaseEncryptionPlugin {
+  constructor(keys?: EncryptionKeys, options?: EncryptionPluginOptions) {
+    // A 96-bit counter nonce would leave CTR keystreams one block apart between messages
+    if (options?.nonceMode === 'counter') {
+      throw new Error('Counter nonces are not supported by aes-256-ctr-hmac-sha256');
+    }
+    super('aes-256-ctr-hmac-sha256', keys, options);
+  }
+
+  /**
+   * Encrypts plaintext under the send keys
+   */
+  encrypt(plaintext: string, context?: EncryptionContext): EncryptThenMacResult {
+    return this.encryptBytes(Buffer.from(plaintext, 'utf8'), context);
+  }
+
+  /**
+   * Decrypts ciphertext under the receive keys
+   */
+  decrypt(encrypted: EncryptionResult, context?: EncryptionContext): string {
+    return this.decryptBytes(encrypted, context).toString('utf8');
+  }
+
+  /**
+   * Encrypts bytes under the send keys
+   */
+  encryptBytes(plaintext: Buffer, context?: EncryptionContext): EncryptThenMacResult {
+    const { ciphertext, iv, tag } = this.sealBytes(plaintext, context);
+
+    return {
+      data: ciphertext.toString('base64'),
+      metadata: { iv: iv.toString('base64'), tag: tag.toString('base64') },
+    };
+  }
+
+  /**
+   * Decrypts bytes under the receive keys
+   */
+  decryptBytes(encrypted: EncryptionResult, context?: EncryptionContext): Buffer {
+    if (!encrypted.metadata?.iv || !encrypted.metadata.tag) {
+      throw new Error(`Missing required metadata for ${this.algorithmName} decryption`);
+    }
+
+    return this.openBytes(
+      {
+        ciphertext: Buffer.from(encrypted.data, 'base64'),
+        iv: Buffer.from(encrypted.metadata.iv, 'base64'),
+        tag: Buffer.from(encrypted.metadata.tag, 'base64'),
+      },
+      context,
+    );
+  }
+
+  /**
+   * Encrypts text or bytes with a fresh random 128-bit IV, then MACs the IV, ciphertext and context
+   */
+  protected sealBytes(
+    plaintext: string | Buffer,
+    context?: EncryptionContext,
+  ): SealedBytes & { iv: Buffer } {
+    const { encryptionKey, authenticationKey } = this.getSendKeys();
+
+    const iv = randomBytes(16);
+    const cipher = createCipheriv('aes-256-ctr', encryptionKey, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(typeof plaintext === 'string' ? Buffer.from(plaintext, 'utf8') : plaintext),
+      cipher.final(),
+    ]);
+    const tag = computeTag(authenticationKey, this.encodeAdditionalData(context), iv, ciphertext);
+
+    return { ciphertext, iv, tag };
+  }
+
+  /**
+   * Verifies the MAC before decrypting anything; text comes back as its UTF-8 bytes
+   */
+  protected openBytes({ ciphertext, iv, tag }: SealedBytes, context?: EncryptionContext): Buffer {
+    const { encryptionKey, authenticationKey } = this.getReceiveKeys();
+
+    if (!iv) {
+      throw new Error(`Missing required metadata for ${this.algorithmName} decryption`);
+    }
+    if (iv.length !== 16) {
+      throw new Error('Invalid IV length');
+    }
+
+    const expected = computeTag(
+      authenticationKey,
+      this.encodeAdditionalData(context),
+      iv,
+      ciphertext,
+    );
+    if (!constantTimeCompare(tag, expected)) {
+      throw new Error('Authentication failed');
+    }
+
+    const decipher = createDecipheriv('aes-256-ctr', encryptionKey, iv);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+}
@@ -0,0 +1,76 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import { readFileSync, renameSync, writeFileSync } from 'fs';
+
+/**
+ * Storage for trust-on-first-use identity fingerprints, keyed by peer label
+ * Implementations are synchronous because they are consulted mid-handshake
+ */
+export interface KnownPeersStore {
+  get(_peerLabel: string): string | undefined;
+  set(_peerLabel: string, _fingerprint: string): void;
+}
+
+/**
+ * Known peers kept in memory for the lifetime of the process
+ */
+export class MemoryKnownPeersStore implements KnownPeersStore {
+  private readonly peers = new Map<string, string>();
+
+  get(peerLabel: string): string | undefined {
+    return this.peers.get(peerLabel);
+  }
+
+  set(peerLabel: string, fingerprint: string): void {
+    this.peers.set(peerLabel, fingerprint);
+  }
+}
+
+/**
+ * Known peers persisted to a JSON file mapping peer labels to fingerprints
+ * The file is re-read on every lookup so concurrent processes see each other's entries
+ */
+export class FileKnownPeersStore implements KnownPeersStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  get(peerLabel: string): string | undefined {
+    const peers = this.read();
+    return Object.prototype.hasOwnProperty.call(peers, peerLabel) ? peers[peerLabel] : undefined;
+  }
+
+  set(peerLabel: string, fingerprint: string): void {
+    const peers = this.read();
+    peers[peerLabel] = fingerprint;
+
+    // Write then rename so a crash never leaves a truncated file behind
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(peers, null, 2) + '\n', { mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+  }
+
+  private read(): Record<string, string> {
+    let contents: string;
+    try {
+      contents = readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(contents);
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`Known peers file ${this.filePath} is malformed`);
+    }
+    return parsed;
+  }
+}
@@ -0,0 +1,210 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import {
+  readIncomingMessage,
+  type BaseEncryptionPlugin,
+  type IncomingMessage,
+} from './BaseEncryptionPlugin.ts';
+import { UnsupportedAlgorithmError } from './errors.ts';
+import { isJsonObject, resolveParseLimits, type ParseLimits } from './safe-json.ts';
+
+export interface PluginRegistryOptions {
+  /**
+   * Algorithms accepted on receive; every registered plugin when omitted
+   */
+  allowedAlgorithms?: readonly string[];
+  /**
+   * Algorithm used to send; the first plugin registered when omitted
+   */
+  sendAlgorithm?: string;
+  /**
+   * Limits applied while parsing each envelope, before it is dispatched; plugins parse it
+   * no further, but apply their own limits to the decrypted plaintext
+   */
+  parseLimits?: ParseLimits;
+}
+
+/**
+ * Holds several encryption plugins keyed by algorithm name
+ * Sends with one of them and dispatches each incoming envelope to the plugin its algorithm names,
+ * so a peer may change algorithms mid-session or during a rollout
+ */
+export class PluginRegistry {
+  private readonly plugins = new Map<string, BaseEncryptionPlugin>();
+  private allowedAlgorithms?: Set<string>;
+  private sendAlgorithm?: string;
+  private readonly parseLimits: Required<ParseLimits>;
+
+  constructor(plugins: readonly BaseEncryptionPlugin[] = [], options: PluginRegistryOptions = {}) {
+    this.parseLimits = resolveParseLimits(options.parseLimits);
+    for (const plugin of plugins) {
+      this.register(plugin);
+    }
+    if (options.allowedAlgorithms) {
+      this.setAllowedAlgorithms(options.allowedAlgorithms);
+    }
+    if (options.sendAlgorithm) {
+      this.setSendAlgorithm(options.sendAlgorithm);
+    }
+  }
+
+  /**
+   * Adds a plugin under its algorithm name
+   */
+  register(plugin: BaseEncryptionPlugin): void {
+    const algorithm = plugin.getAlgorithmName();
+    if (this.plugins.has(algorithm)) {
+      throw new Error(`A plugin for ${algorithm} is already registered`);
+    }
+
+    this.plugins.set(algorithm, plugin);
+    this.sendAlgorithm ??= algorithm;
+  }
+
+  /**
+   * Removes and returns the plugin for an algorithm; the caller decides whether to destroy it
+   */
+  unregister(algorithm: string): BaseEncryptionPlugin | undefined {
+    if (algorithm === this.sendAlgorithm) {
+      throw new Error(`Cannot unregister ${algorithm} while it is used to send`);
+    }
+
+    const plugin = this.plugins.get(algorithm);
+    this.plugins.delete(algorithm);
+    return plugin;
+  }
+
+  get(algorithm: string): BaseEncryptionPlugin | undefined {
+    return this.plugins.get(algorithm);
+  }
+
+  getAlgorithms(): string[] {
+    return [...this.plugins.keys()];
+  }
+
+  /**
+   * Restricts the algorithms accepted on receive
+   */
+  setAllowedAlgorithms(algorithms: readonly string[]): void {
+    this.allowedAlgorithms = new Set(algorithms);
+  }
+
+  isAllowed(algorithm: string): boolean {
+    return this.allowedAlgorithms?.has(algorithm) ?? this.plugins.has(algorithm);
+  }
+
+  /**
+   * Switches the plugin used for outgoing messages
+   */
+  setSendAlgorithm(algorithm: string): void {
+    if (!this.plugins.has(algorithm)) {
+      throw new Error(`No plugin registered for algorithm ${algorithm}`);
+    }
+    this.sendAlgorithm = algorithm;
+  }
+
+  getSendAlgorithm(): string | undefined {
+    return this.sendAlgorithm;
+  }
+
+  /**
+   * The plugin outgoing messages are encrypted with
+   */
+  getSendPlugin(): BaseEncryptionPlugin {
+    const plugin = this.sendAlgorithm && this.plugins.get(this.sendAlgorithm);
+    if (!plugin) {
+      throw new Error('No encryption plugins registered');
+    }
+    return plugin;
+  }
+
+  processOutgoingMessage(message: unknown): string {
+    return this.getSendPlugin().processOutgoingMessage(message);
+  }
+
+  processOutgoingFrame(message: unknown): Buffer {
+    return this.getSendPlugin().processOutgoingFrame(message);
+  }
+
+  wrapMessage(type: string, payload: unknown): string {
+    return this.getSendPlugin().wrapMessage(type, payload);
+  }
+
+  wrapFrame(type: string, payload: unknown): Buffer {
+    return this.getSendPlugin().wrapFrame(type, payload);
+  }
+
+  /**
+   * Decrypts an incoming message with the plugin named by its envelope
+   * Throws an UnsupportedAlgorithmError for algorithms that are unregistered or not allowed;
+   * anything that is not an envelope is left to the send plugin
+   */
+  processIncomingMessage(rawMessage: string | Buffer): unknown {
+    const incoming = readIncomingMessage(rawMessage, this.parseLimits);
+    const algorithm = envelopeAlgorithm(incoming);
+    if (algorithm === undefined) {
+      return this.getSendPlugin().processParsedMessage(incoming);
+    }
+
+    if (!this.isAllowed(algorithm)) {
+      throw new UnsupportedAlgorithmError(algorithm, 'not-allowed');
+    }
+    const plugin = this.plugins.get(algorithm);
+    if (!plugin) {
+      throw new UnsupportedAlgorithmError(algorithm, 'not-registered');
+    }
+
+    return plugin.processParsedMessage(incoming);
+  }
+
+  /**
+   * Unwraps a message created with wrapMessage() or wrapFrame()
+   */
+  unwrapMessage(rawMessage: string | Buffer): { type: string; payload: unknown } | null {
+    try {
+      const processed = this.processIncomingMessage(rawMessage);
+
+      if (isJsonObject(processed) && typeof processed.type === 'string' && processed.type) {
+        return {
+          type: processed.type,
+          payload: processed.payload || processed,
+        };
+      }
+
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Destroys every registered plugin
+   */
+  destroy(): void {
+    for (const plugin of this.plugins.values()) {
+      plugin.destroy();
+    }
+    this.plugins.clear();
+    this.sendAlgorithm = undefined;
+  }
+}
+
+/**
+ * The algorithm of an encrypted envelope or key update, read without decrypting it
+ */
+function envelopeAlgorithm({ parsed, sealed }: IncomingMessage): string | undefined {
+  if (
+    isJsonObject(parsed) &&
+    (parsed.type === 'encrypted-plugin-message' || parsed.type === 'key-update') &&
+    (sealed || parsed.encrypted) &&
+    typeof parsed.algorithm === 'string'
+  ) {
+    return parsed.algorithm;
+  }
+  // Not an envelope; the send plugin decides what to do with it
+  return undefined;
+}
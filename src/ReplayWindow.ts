@@ -0,0 +1,65 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import { ReplayError } from './errors.ts';
+
+/**
+ * Anti-replay sliding window over message sequence numbers (as in IPsec, RFC 4303)
+ * Tracks the highest sequence seen and which of the preceding `size` numbers have arrived
+ */
+export class ReplayWindow {
+  private readonly size: number;
+  private highest = -1;
+  private seen = 0n;
+
+  constructor(size: number = 64) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error('Replay window size must be a positive integer');
+    }
+    this.size = size;
+  }
+
+  /**
+   * Throws a ReplayError if the sequence number is a duplicate or has fallen behind the window
+   * Call before decrypting; record the number with accept() only once it has authenticated
+   */
+  check(seq: number): void {
+    if (!Number.isSafeInteger(seq) || seq < 0) {
+      throw new Error('Invalid sequence number');
+    }
+    if (seq > this.highest) {
+      return;
+    }
+
+    const offset = this.highest - seq;
+    if (offset >= this.size) {
+      throw new ReplayError(seq, 'too-old');
+    }
+    if ((this.seen >> BigInt(offset)) & 1n) {
+      throw new ReplayError(seq, 'duplicate');
+    }
+  }
+
+  /**
+   * Records an authenticated sequence number, sliding the window forward if needed
+   */
+  accept(seq: number): void {
+    this.check(seq);
+
+    if (seq > this.highest) {
+      const shift = seq - this.highest;
+      this.seen = shift >= this.size ? 0n : (this.seen << BigInt(shift)) & this.mask();
+      this.seen |= 1n;
+      this.highest = seq;
+    } else {
+      this.seen |= 1n << BigInt(this.highest - seq);
+    }
+  }
+
+  private mask(): bigint {
+    return (1n << BigInt(this.size)) - 1n;
+  }
+}
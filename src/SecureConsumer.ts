@@ -4,8 +4,93 @@
  * Unauthorized copying, distribution, or use is strictly prohibited.
  */
 
-import { createECDH, createHmac } from 'crypto';
-import { HKDF, SecureRandom, createContextInfo, constantTimeCompare } from './crypto-utils.ts';
+import { createHmac } from 'crypto';
+import {
+  HKDF,
+  SecureRandom,
+  canonicalize,
+  constantTimeCompare,
+  clonePreSharedKey,
+  createContextInfo,
+  exportIdentityPublicKey,
+  identityFingerprint,
+  importIdentityPublicKey,
+  signWithIdentityKey,
+  TranscriptHash,
+  verifyIdentitySignature,
+  type IdentityKey,
+  type IdentityKeyPair,
+  type PreSharedKey,
+} from './crypto-utils.ts';
+import {
+  resolveCipherSuites,
+  selectCipherSuite,
+  type CipherSuite,
+  type SessionKeys,
+} from './cipher-suites.ts';
+import type { DirectionalKeys } from './BaseEncryptionPlugin.ts';
+import {
+  KeyAgreement,
+  resolveKeyAgreementGroups,
+  selectKeyAgreementGroup,
+  type KeyAgreementGroup,
+} from './key-agreement.ts';
+import { PeerKeyChangedError, SubtylSocketError } from './errors.ts';
+import type { KnownPeersStore } from './KnownPeersStore.ts';
+import {
+  DEFAULT_HANDSHAKE_PARSE_LIMITS,
+  parseJson,
+  resolveParseLimits,
+  type ParseLimits,
+} from './safe-json.ts';
+
+export interface SecureConsumerOptions {
+  /**
+   * Provider identity public key to trust
+   * When set, handshake-init messages must carry a valid signature from this key
+   */
+  trustedProviderKey?: IdentityKey;
+
+  /**
+   * Long-term identity key pair used to sign the handshake transcript
+   * Lets the provider authenticate and authorize this consumer
+   */
+  identityKey?: IdentityKeyPair;
+
+  /**
+   * Pre-shared key mixed into key derivation alongside the ECDH secret
+   * Must match the provider's key for key confirmation to succeed
+   */
+  psk?: PreSharedKey;
+
+  /**
+   * Trust-on-first-use store consulted by peer label (e.g. host name)
+   * The provider's identity fingerprint is recorded after the first confirmed handshake,
+   * and a different key on later connections is rejected with PeerKeyChangedError
+   */
+  knownPeers?: {
+    store: KnownPeersStore;
+    peerLabel: string;
+  };
+
+  /**
+   * Cipher suites to accept; the provider's preference order decides among them
+   * Defaults to aes-256-gcm and chacha20-poly1305
+   */
+  cipherSuites?: CipherSuite[];
+
+  /**
+   * Key agreement groups to accept; the provider's preference order decides among them
+   * Defaults to x25519, P-256 and P-384
+   */
+  groups?: KeyAgreementGroup[];
+
+  /**
+   * Size, depth and string length limits for handshake messages
+   * Defaults to 64 KiB, 8 levels and 4096 characters
+   */
+  parseLimits?: ParseLimits;
+}
 
 interface HandshakeState {
   sessionId?: string;
@@ -16,27 +101,53 @@ interface HandshakeState {
     encryptionKey: Buffer;
     authenticationKey: Buffer;
     confirmationKey: Buffer;
+    clientToServer: DirectionalKeys;
+    serverToClient: DirectionalKeys;
   };
   confirmed: boolean;
+  cipher?: CipherSuite;
+  transcript: TranscriptHash;
+  transcriptHash?: Buffer;
   providerPublicKey?: Buffer;
+  pendingFingerprint?: string;
 }
 
 export class SecureConsumer {
-  private ecdh = createECDH('prime256v1');
+  private keyAgreement?: KeyAgreement;
   private handshakeState: HandshakeState;
-
-  constructor() {
-    this.ecdh.generateKeys();
+  private readonly trustedProviderKey?: IdentityKey;
+  private readonly identityKey?: IdentityKeyPair;
+  private readonly psk?: PreSharedKey;
+  private readonly cipherSuites: CipherSuite[];
+  private readonly groups: KeyAgreementGroup[];
+  private readonly knownPeers?: SecureConsumerOptions['knownPeers'];
+  private readonly parseLimits: Required<ParseLimits>;
+
+  constructor(options: SecureConsumerOptions = {}) {
+    this.trustedProviderKey = options.trustedProviderKey;
+    this.identityKey = options.identityKey;
+    this.psk = options.psk && clonePreSharedKey(options.psk);
+    this.cipherSuites = resolveCipherSuites(options.cipherSuites);
+    this.groups = resolveKeyAgreementGroups(options.groups);
+    this.knownPeers = options.knownPeers;
+    this.parseLimits = resolveParseLimits(options.parseLimits, DEFAULT_HANDSHAKE_PARSE_LIMITS);
     this.handshakeState = {
       consumerNonce: SecureRandom.bytes(32),
       confirmed: false,
+      transcript: new TranscriptHash(),
     };
   }
 
   /**
    * Handles incoming messages and manages the handshake state machine
    */
-  handleMessage(raw: any): { type: string; response?: any; confirmed: boolean; error?: string } {
+  handleMessage(raw: any): {
+    type: string;
+    response?: any;
+    confirmed: boolean;
+    error?: string;
+    code?: string;
+  } {
     try {
       const data = this._normalizeMessage(raw);
 
@@ -48,7 +159,12 @@ export class SecureConsumer {
 
       return { type: 'error', confirmed: false, error: 'Unknown message type' };
     } catch (error) {
-      return { type: 'error', confirmed: false, error: (error as Error).message };
+      return {
+        type: 'error',
+        confirmed: false,
+        error: (error as Error).message,
+        code: error instanceof SubtylSocketError ? error.code : undefined,
+      };
     }
   }
 
@@ -58,37 +174,72 @@ export class SecureConsumer {
       throw new Error('Unsupported protocol version');
     }
 
-    // Validate supported algorithms
-    if (
-      !data.supportedCiphers?.includes('aes-256-gcm') ||
-      !data.supportedHashes?.includes('sha256')
-    ) {
+    // Negotiate the cipher suite, honouring the provider's preference order
+    const cipher = selectCipherSuite(data.supportedCiphers, this.cipherSuites);
+    if (!cipher || !data.supportedHashes?.includes('sha256')) {
       throw new Error('Unsupported cryptographic algorithms');
     }
+    this.handshakeState.cipher = cipher;
+
+    // Negotiate the key agreement group the same way
+    const group = selectKeyAgreementGroup(data.supportedGroups, this.groups);
+    if (!group) {
+      throw new Error('Unsupported key agreement groups');
+    }
+    const providerKeyShare = data.keyShares?.[group];
+    if (typeof providerKeyShare !== 'string') {
+      throw new Error('Missing key share for selected group');
+    }
+
+    if (this.psk && data.pskIdentity !== undefined && data.pskIdentity !== this.psk.identity) {
+      throw new Error('PSK identity mismatch');
+    }
+
+    // Authenticate the provider before using its ephemeral key
+    if (this.trustedProviderKey) {
+      this._verifyProviderSignature(data, this.trustedProviderKey);
+    }
+    if (this.knownPeers) {
+      this._checkKnownPeer(data);
+    }
 
     // Store handshake parameters
     this.handshakeState.sessionId = data.sessionId;
     this.handshakeState.providerNonce = Buffer.from(data.providerNonce, 'base64');
-    this.handshakeState.providerPublicKey = Buffer.from(data.publicKey, 'base64');
+    this.handshakeState.providerPublicKey = Buffer.from(providerKeyShare, 'base64');
 
-    // Compute shared secret
-    this.handshakeState.sharedSecret = this.ecdh.computeSecret(
+    // Compute shared secret with a fresh ephemeral key in the selected group
+    this.keyAgreement = new KeyAgreement(group);
+    this.handshakeState.sharedSecret = this.keyAgreement.computeSecret(
       this.handshakeState.providerPublicKey,
     );
 
-    // Derive keys using HKDF
-    this._deriveKeys();
-
     // Prepare response
-    const response = {
+    const response: Record<string, unknown> = {
       type: 'handshake-response',
       sessionId: this.handshakeState.sessionId,
-      publicKey: this.ecdh.getPublicKey('base64'),
+      publicKey: this.keyAgreement.getPublicKey().toString('base64'),
       consumerNonce: this.handshakeState.consumerNonce.toString('base64'),
-      selectedCipher: 'aes-256-gcm',
+      selectedCipher: cipher,
       selectedHash: 'sha256',
+      selectedGroup: group,
     };
 
+    // Sign the transcript (init followed by our response) to prove our identity
+    if (this.identityKey) {
+      response.identityKey = exportIdentityPublicKey(this.identityKey.publicKey);
+      response.signature = signWithIdentityKey(
+        this.identityKey.privateKey,
+        Buffer.concat([canonicalize(data), canonicalize(response)]),
+      ).toString('base64');
+    }
+
+    // Bind the full exchange into the transcript, then derive keys using HKDF
+    this.handshakeState.transcript.update(data);
+    this.handshakeState.transcript.update(response);
+    this.handshakeState.transcriptHash = this.handshakeState.transcript.digest();
+    this._deriveKeys();
+
     return {
       type: 'handshake-response',
       response,
@@ -96,6 +247,46 @@ export class SecureConsumer {
     };
   }
 
+  private _verifyProviderSignature(data: Record<string, unknown>, providerKey: IdentityKey): void {
+    if (typeof data.signature !== 'string') {
+      throw new Error('Missing provider signature');
+    }
+
+    const { signature, ...signedFields } = data;
+
+    if (
+      !verifyIdentitySignature(
+        providerKey,
+        canonicalize(signedFields),
+        Buffer.from(signature, 'base64'),
+      )
+    ) {
+      throw new Error('Provider signature verification failed - potential MITM attack');
+    }
+  }
+
+  private _checkKnownPeer(data: Record<string, unknown>): void {
+    const { store, peerLabel } = this.knownPeers!;
+
+    if (typeof data.identityKey !== 'string') {
+      throw new Error('Provider did not present an identity key');
+    }
+
+    // The advertised key must actually have signed this handshake before we trust or record it
+    const providerKey = importIdentityPublicKey(data.identityKey);
+    this._verifyProviderSignature(data, providerKey);
+
+    const fingerprint = identityFingerprint(providerKey);
+    const knownFingerprint = store.get(peerLabel);
+
+    if (knownFingerprint === undefined) {
+      // First contact: record only once key confirmation succeeds
+      this.handshakeState.pendingFingerprint = fingerprint;
+    } else if (knownFingerprint !== fingerprint) {
+      throw new PeerKeyChangedError(peerLabel, knownFingerprint, fingerprint);
+    }
+  }
+
   private _processKeyConfirmationRequest(data: any): {
     type: string;
     response?: any;
@@ -108,7 +299,8 @@ export class SecureConsumer {
       this.handshakeState.providerNonce!,
       this.handshakeState.consumerNonce,
       this.handshakeState.providerPublicKey!,
-      this.ecdh.getPublicKey(),
+      this.keyAgreement!.getPublicKey(),
+      this.handshakeState.transcriptHash!,
     ]);
 
     const expectedMac = createHmac('sha256', this.handshakeState.derivedKeys!.confirmationKey)
@@ -124,8 +316,9 @@ export class SecureConsumer {
     const ourConfirmationData = Buffer.concat([
       this.handshakeState.consumerNonce,
       this.handshakeState.providerNonce!,
-      this.ecdh.getPublicKey(),
+      this.keyAgreement!.getPublicKey(),
       this.handshakeState.providerPublicKey!,
+      this.handshakeState.transcriptHash!,
     ]);
 
     const ourConfirmationMac = createHmac(
@@ -138,10 +331,15 @@ export class SecureConsumer {
     // Mark handshake as confirmed
     this.handshakeState.confirmed = true;
 
+    if (this.knownPeers && this.handshakeState.pendingFingerprint) {
+      this.knownPeers.store.set(this.knownPeers.peerLabel, this.handshakeState.pendingFingerprint);
+      this.handshakeState.pendingFingerprint = undefined;
+    }
+
     const response = {
       type: 'key-confirmation',
       sessionId: this.handshakeState.sessionId,
-      publicKey: this.ecdh.getPublicKey('base64'),
+      publicKey: this.keyAgreement!.getPublicKey().toString('base64'),
       confirmationMac: ourConfirmationMac.toString('base64'),
     };
 
@@ -157,34 +355,92 @@ export class SecureConsumer {
       throw new Error('Cannot derive keys without shared secret and nonces');
     }
 
+    if (!this.handshakeState.transcriptHash) {
+      throw new Error('Cannot derive keys before the handshake transcript is complete');
+    }
+
+    // Binding the transcript into the salt ties every key to the negotiated parameters
     const salt = Buffer.concat([
       this.handshakeState.providerNonce,
       this.handshakeState.consumerNonce,
+      this.handshakeState.transcriptHash,
     ]);
 
+    // Mix the pre-shared key (if any) into the input keying material
+    const ikm = this.psk
+      ? Buffer.concat([this.handshakeState.sharedSecret, this.psk.key])
+      : this.handshakeState.sharedSecret;
+
     // Derive multiple keys with proper context separation
     const encryptionInfo = createContextInfo('SubtylSocket-Encryption');
     const authInfo = createContextInfo('SubtylSocket-Authentication');
     const confirmationInfo = createContextInfo('SubtylSocket-KeyConfirmation');
 
     this.handshakeState.derivedKeys = {
-      encryptionKey: HKDF.derive(this.handshakeState.sharedSecret, salt, encryptionInfo, 32),
-      authenticationKey: HKDF.derive(this.handshakeState.sharedSecret, salt, authInfo, 32),
-      confirmationKey: HKDF.derive(this.handshakeState.sharedSecret, salt, confirmationInfo, 32),
+      encryptionKey: HKDF.derive(ikm, salt, encryptionInfo, 32),
+      authenticationKey: HKDF.derive(ikm, salt, authInfo, 32),
+      confirmationKey: HKDF.derive(ikm, salt, confirmationInfo, 32),
+      // Separate traffic keys per direction so messages cannot be reflected back to their sender
+      clientToServer: {
+        encryptionKey: HKDF.derive(
+          ikm,
+          salt,
+          createContextInfo('SubtylSocket-ClientToServer-Encryption'),
+          32,
+        ),
+        authenticationKey: HKDF.derive(
+          ikm,
+          salt,
+          createContextInfo('SubtylSocket-ClientToServer-Authentication'),
+          32,
+        ),
+        iv: HKDF.derive(ikm, salt, createContextInfo('SubtylSocket-ClientToServer-IV'), 12),
+        epoch: { used: false },
+      },
+      serverToClient: {
+        encryptionKey: HKDF.derive(
+          ikm,
+          salt,
+          createContextInfo('SubtylSocket-ServerToClient-Encryption'),
+          32,
+        ),
+        authenticationKey: HKDF.derive(
+          ikm,
+          salt,
+          createContextInfo('SubtylSocket-ServerToClient-Authentication'),
+          32,
+        ),
+        iv: HKDF.derive(ikm, salt, createContextInfo('SubtylSocket-ServerToClient-IV'), 12),
+        epoch: { used: false },
+      },
     };
+
+    if (ikm !== this.handshakeState.sharedSecret) {
+      ikm.fill(0);
+    }
   }
 
   /**
-   * Returns the derived keys if handshake is confirmed
+   * Returns the derived keys and negotiated cipher suite if handshake is confirmed
+   * Pass the result to createEncryptionPlugin to obtain the matching plugin
    */
-  getDerivedKeys(): { encryptionKey: Buffer; authenticationKey: Buffer } | null {
-    if (!this.handshakeState.confirmed || !this.handshakeState.derivedKeys) {
+  getDerivedKeys(): SessionKeys | null {
+    if (
+      !this.handshakeState.confirmed ||
+      !this.handshakeState.derivedKeys ||
+      !this.handshakeState.cipher
+    ) {
       return null;
     }
 
     return {
       encryptionKey: this.handshakeState.derivedKeys.encryptionKey,
       authenticationKey: this.handshakeState.derivedKeys.authenticationKey,
+      send: this.handshakeState.derivedKeys.clientToServer,
+      receive: this.handshakeState.derivedKeys.serverToClient,
+      sessionId: this.handshakeState.sessionId,
+      role: 'client',
+      cipher: this.handshakeState.cipher,
     };
   }
 
@@ -203,11 +459,7 @@ export class SecureConsumer {
   }
 
   private _normalizeMessage(raw: any): any {
-    try {
-      return typeof raw === 'string' ? JSON.parse(raw) : raw;
-    } catch {
-      throw new Error('Invalid message format');
-    }
+    return typeof raw === 'string' ? parseJson(raw, this.parseLimits) : raw;
   }
 
   /**
@@ -221,12 +473,22 @@ export class SecureConsumer {
       this.handshakeState.derivedKeys.encryptionKey.fill(0);
       this.handshakeState.derivedKeys.authenticationKey.fill(0);
       this.handshakeState.derivedKeys.confirmationKey.fill(0);
+      for (const keys of [
+        this.handshakeState.derivedKeys.clientToServer,
+        this.handshakeState.derivedKeys.serverToClient,
+      ]) {
+        keys.encryptionKey.fill(0);
+        keys.authenticationKey.fill(0);
+        keys.iv?.fill(0);
+      }
       this.handshakeState.derivedKeys = undefined;
     }
     this.handshakeState.consumerNonce.fill(0);
     if (this.handshakeState.providerNonce) {
       this.handshakeState.providerNonce.fill(0);
     }
+    this.handshakeState.transcriptHash?.fill(0);
+    this.psk?.key.fill(0);
     this.handshakeState.confirmed = false;
   }
 }
@@ -4,8 +4,79 @@
  * Unauthorized copying, distribution, or use is strictly prohibited.
  */
 
-import { createECDH, createHmac } from 'crypto';
-import { HKDF, SecureRandom, createContextInfo, constantTimeCompare } from './crypto-utils.ts';
+import { createHmac, type KeyObject } from 'crypto';
+import {
+  HKDF,
+  SecureRandom,
+  canonicalize,
+  constantTimeCompare,
+  clonePreSharedKey,
+  createContextInfo,
+  exportIdentityPublicKey,
+  importIdentityPublicKey,
+  signWithIdentityKey,
+  TranscriptHash,
+  verifyIdentitySignature,
+  type IdentityKeyPair,
+  type PreSharedKey,
+} from './crypto-utils.ts';
+import { resolveCipherSuites, type CipherSuite, type SessionKeys } from './cipher-suites.ts';
+import type { DirectionalKeys } from './BaseEncryptionPlugin.ts';
+import {
+  KeyAgreement,
+  resolveKeyAgreementGroups,
+  type KeyAgreementGroup,
+} from './key-agreement.ts';
+import { SubtylSocketError } from './errors.ts';
+import {
+  DEFAULT_HANDSHAKE_PARSE_LIMITS,
+  parseJson,
+  resolveParseLimits,
+  type ParseLimits,
+} from './safe-json.ts';
+
+/**
+ * Callback deciding whether a consumer's verified identity key may connect
+ */
+export type ClientAuthorizer = (_publicKey: KeyObject) => boolean;
+
+export interface SecureProviderOptions {
+  /**
+   * Long-term identity key pair used to sign handshake-init messages
+   * Consumers holding the matching public key can detect active MITM attempts
+   */
+  identityKey?: IdentityKeyPair;
+
+  /**
+   * Decides whether a consumer's verified identity public key may connect
+   * When set, consumers must authenticate with an identity key
+   */
+  authorizeClient?: ClientAuthorizer;
+
+  /**
+   * Pre-shared key mixed into key derivation alongside the ECDH secret
+   * Consumers without the same key fail key confirmation
+   */
+  psk?: PreSharedKey;
+
+  /**
+   * Cipher suites to offer, most preferred first
+   * Defaults to aes-256-gcm followed by chacha20-poly1305
+   */
+  cipherSuites?: CipherSuite[];
+
+  /**
+   * Key agreement groups to offer, most preferred first
+   * A key share is sent for each; defaults to x25519, P-256 then P-384
+   */
+  groups?: KeyAgreementGroup[];
+
+  /**
+   * Size, depth and string length limits for handshake messages
+   * Defaults to 64 KiB, 8 levels and 4096 characters
+   */
+  parseLimits?: ParseLimits;
+}
 
 interface HandshakeState {
   sessionId: string;
@@ -16,20 +87,43 @@ interface HandshakeState {
     encryptionKey: Buffer;
     authenticationKey: Buffer;
     confirmationKey: Buffer;
+    clientToServer: DirectionalKeys;
+    serverToClient: DirectionalKeys;
   };
   confirmed: boolean;
+  cipher?: CipherSuite;
+  transcript: TranscriptHash;
+  transcriptHash?: Buffer;
+  initMessage?: Record<string, unknown>;
+  consumerIdentity?: KeyObject;
 }
 
 export class SecureProvider {
-  private ecdh = createECDH('prime256v1');
+  private readonly keyShares = new Map<KeyAgreementGroup, KeyAgreement>();
+  private keyAgreement?: KeyAgreement;
   private handshakeState: HandshakeState;
+  private readonly identityKey?: IdentityKeyPair;
+  private readonly authorizeClient?: ClientAuthorizer;
+  private readonly psk?: PreSharedKey;
+  private readonly cipherSuites: CipherSuite[];
+  private readonly groups: KeyAgreementGroup[];
+  private readonly parseLimits: Required<ParseLimits>;
 
-  constructor() {
-    this.ecdh.generateKeys();
+  constructor(options: SecureProviderOptions = {}) {
+    this.identityKey = options.identityKey;
+    this.authorizeClient = options.authorizeClient;
+    this.psk = options.psk && clonePreSharedKey(options.psk);
+    this.cipherSuites = resolveCipherSuites(options.cipherSuites);
+    this.groups = resolveKeyAgreementGroups(options.groups);
+    this.parseLimits = resolveParseLimits(options.parseLimits, DEFAULT_HANDSHAKE_PARSE_LIMITS);
+    for (const group of this.groups) {
+      this.keyShares.set(group, new KeyAgreement(group));
+    }
     this.handshakeState = {
       sessionId: SecureRandom.base64(16),
       providerNonce: SecureRandom.bytes(32),
       confirmed: false,
+      transcript: new TranscriptHash(),
     };
   }
 
@@ -37,16 +131,36 @@ export class SecureProvider {
    * Initiates the secure handshake with proper key confirmation
    */
   startHandshake(socket: any): void {
-    const message = {
+    const message: Record<string, unknown> = {
       type: 'handshake-init',
       version: 1,
       sessionId: this.handshakeState.sessionId,
-      publicKey: this.ecdh.getPublicKey('base64'),
+      // Key share for the preferred group, plus one per offered group in keyShares
+      publicKey: this.keyShares.get(this.groups[0]!)!.getPublicKey().toString('base64'),
       providerNonce: this.handshakeState.providerNonce.toString('base64'),
-      supportedCiphers: ['aes-256-gcm'],
+      supportedCiphers: this.cipherSuites,
       supportedHashes: ['sha256'],
+      supportedGroups: this.groups,
+      keyShares: Object.fromEntries(
+        this.groups.map(group => [
+          group,
+          this.keyShares.get(group)!.getPublicKey().toString('base64'),
+        ]),
+      ),
+      pskIdentity: this.psk?.identity,
     };
 
+    // Sign every init field so the consumer can authenticate the ephemeral key
+    if (this.identityKey) {
+      message.identityKey = exportIdentityPublicKey(this.identityKey.publicKey);
+      message.signature = signWithIdentityKey(
+        this.identityKey.privateKey,
+        canonicalize(message),
+      ).toString('base64');
+    }
+
+    this.handshakeState.initMessage = message;
+    this.handshakeState.transcript.update(message);
     socket.send(JSON.stringify(message));
   }
 
@@ -57,6 +171,7 @@ export class SecureProvider {
     type: string;
     confirmed: boolean;
     error?: string;
+    code?: string;
     confirmationMac?: string;
   } {
     try {
@@ -70,7 +185,12 @@ export class SecureProvider {
 
       return { type: 'error', confirmed: false, error: 'Unknown message type' };
     } catch (error) {
-      return { type: 'error', confirmed: false, error: (error as Error).message };
+      return {
+        type: 'error',
+        confirmed: false,
+        error: (error as Error).message,
+        code: error instanceof SubtylSocketError ? error.code : undefined,
+      };
     }
   }
 
@@ -84,12 +204,28 @@ export class SecureProvider {
       throw new Error('Session ID mismatch');
     }
 
+    // The consumer must pick one of the suites we offered
+    if (!this.cipherSuites.includes(data.selectedCipher)) {
+      throw new Error('Unsupported cipher suite selected');
+    }
+    this.handshakeState.cipher = data.selectedCipher;
+
+    // Authenticate the consumer before deriving any keys
+    this._authenticateConsumer(data);
+
     // Store consumer's nonce and public key
     this.handshakeState.consumerNonce = Buffer.from(data.consumerNonce, 'base64');
     const consumerPublicKey = Buffer.from(data.publicKey, 'base64');
 
-    // Compute shared secret
-    this.handshakeState.sharedSecret = this.ecdh.computeSecret(consumerPublicKey);
+    // Compute shared secret in the group the consumer selected
+    this.keyAgreement = this.keyShares.get(data.selectedGroup);
+    if (!this.keyAgreement) {
+      throw new Error('Unsupported key agreement group selected');
+    }
+    this.handshakeState.sharedSecret = this.keyAgreement.computeSecret(consumerPublicKey);
+
+    this.handshakeState.transcript.update(data);
+    this.handshakeState.transcriptHash = this.handshakeState.transcript.digest();
 
     // Derive keys using HKDF with proper context separation
     this._deriveKeys();
@@ -98,8 +234,9 @@ export class SecureProvider {
     const confirmationData = Buffer.concat([
       this.handshakeState.providerNonce,
       this.handshakeState.consumerNonce!,
-      this.ecdh.getPublicKey(),
+      this.keyAgreement!.getPublicKey(),
       consumerPublicKey,
+      this.handshakeState.transcriptHash,
     ]);
 
     const confirmationMac = createHmac('sha256', this.handshakeState.derivedKeys!.confirmationKey)
@@ -113,6 +250,41 @@ export class SecureProvider {
     };
   }
 
+  private _authenticateConsumer(data: Record<string, unknown>): void {
+    if (typeof data.identityKey !== 'string') {
+      if (this.authorizeClient) {
+        throw new Error('Client authentication required');
+      }
+      return;
+    }
+
+    if (!this.handshakeState.initMessage) {
+      throw new Error('Handshake not started');
+    }
+
+    const { signature, ...signedFields } = data;
+    const consumerIdentity = importIdentityPublicKey(data.identityKey);
+
+    // The consumer signs the full transcript: our init message followed by its response
+    const transcript = Buffer.concat([
+      canonicalize(this.handshakeState.initMessage),
+      canonicalize(signedFields),
+    ]);
+
+    if (
+      typeof signature !== 'string' ||
+      !verifyIdentitySignature(consumerIdentity, transcript, Buffer.from(signature, 'base64'))
+    ) {
+      throw new Error('Client signature verification failed - potential MITM attack');
+    }
+
+    if (this.authorizeClient && !this.authorizeClient(consumerIdentity)) {
+      throw new Error('Client not authorized');
+    }
+
+    this.handshakeState.consumerIdentity = consumerIdentity;
+  }
+
   private _processKeyConfirmation(data: any): { type: string; confirmed: boolean } {
     const receivedMac = Buffer.from(data.confirmationMac, 'base64');
 
@@ -121,7 +293,8 @@ export class SecureProvider {
       this.handshakeState.consumerNonce!,
       this.handshakeState.providerNonce,
       Buffer.from(data.publicKey, 'base64'),
-      this.ecdh.getPublicKey(),
+      this.keyAgreement!.getPublicKey(),
+      this.handshakeState.transcriptHash!,
     ]);
 
     const expectedMac = createHmac('sha256', this.handshakeState.derivedKeys!.confirmationKey)
@@ -142,37 +315,106 @@ export class SecureProvider {
       throw new Error('Cannot derive keys without shared secret and nonces');
     }
 
+    if (!this.handshakeState.transcriptHash) {
+      throw new Error('Cannot derive keys before the handshake transcript is complete');
+    }
+
+    // Binding the transcript into the salt ties every key to the negotiated parameters
     const salt = Buffer.concat([
       this.handshakeState.providerNonce,
       this.handshakeState.consumerNonce,
+      this.handshakeState.transcriptHash,
     ]);
 
+    // Mix the pre-shared key (if any) into the input keying material
+    const ikm = this.psk
+      ? Buffer.concat([this.handshakeState.sharedSecret, this.psk.key])
+      : this.handshakeState.sharedSecret;
+
     // Derive multiple keys with proper context separation
     const encryptionInfo = createContextInfo('SubtylSocket-Encryption');
     const authInfo = createContextInfo('SubtylSocket-Authentication');
     const confirmationInfo = createContextInfo('SubtylSocket-KeyConfirmation');
 
     this.handshakeState.derivedKeys = {
-      encryptionKey: HKDF.derive(this.handshakeState.sharedSecret, salt, encryptionInfo, 32),
-      authenticationKey: HKDF.derive(this.handshakeState.sharedSecret, salt, authInfo, 32),
-      confirmationKey: HKDF.derive(this.handshakeState.sharedSecret, salt, confirmationInfo, 32),
+      encryptionKey: HKDF.derive(ikm, salt, encryptionInfo, 32),
+      authenticationKey: HKDF.derive(ikm, salt, authInfo, 32),
+      confirmationKey: HKDF.derive(ikm, salt, confirmationInfo, 32),
+      // Separate traffic keys per direction so messages cannot be reflected back to their sender
+      clientToServer: {
+        encryptionKey: HKDF.derive(
+          ikm,
+          salt,
+          createContextInfo('SubtylSocket-ClientToServer-Encryption'),
+          32,
+        ),
+        authenticationKey: HKDF.derive(
+          ikm,
+          salt,
+          createContextInfo('SubtylSocket-ClientToServer-Authentication'),
+          32,
+        ),
+        iv: HKDF.derive(ikm, salt, createContextInfo('SubtylSocket-ClientToServer-IV'), 12),
+        epoch: { used: false },
+      },
+      serverToClient: {
+        encryptionKey: HKDF.derive(
+          ikm,
+          salt,
+          createContextInfo('SubtylSocket-ServerToClient-Encryption'),
+          32,
+        ),
+        authenticationKey: HKDF.derive(
+          ikm,
+          salt,
+          createContextInfo('SubtylSocket-ServerToClient-Authentication'),
+          32,
+        ),
+        iv: HKDF.derive(ikm, salt, createContextInfo('SubtylSocket-ServerToClient-IV'), 12),
+        epoch: { used: false },
+      },
     };
+
+    if (ikm !== this.handshakeState.sharedSecret) {
+      ikm.fill(0);
+    }
   }
 
   /**
-   * Returns the derived keys if handshake is confirmed
+   * Returns the derived keys and negotiated cipher suite if handshake is confirmed
+   * Pass the result to createEncryptionPlugin to obtain the matching plugin
    */
-  getDerivedKeys(): { encryptionKey: Buffer; authenticationKey: Buffer } | null {
-    if (!this.handshakeState.confirmed || !this.handshakeState.derivedKeys) {
+  getDerivedKeys(): SessionKeys | null {
+    if (
+      !this.handshakeState.confirmed ||
+      !this.handshakeState.derivedKeys ||
+      !this.handshakeState.cipher
+    ) {
       return null;
     }
 
     return {
       encryptionKey: this.handshakeState.derivedKeys.encryptionKey,
       authenticationKey: this.handshakeState.derivedKeys.authenticationKey,
+      send: this.handshakeState.derivedKeys.serverToClient,
+      receive: this.handshakeState.derivedKeys.clientToServer,
+      sessionId: this.handshakeState.sessionId,
+      role: 'server',
+      cipher: this.handshakeState.cipher,
     };
   }
 
+  /**
+   * Returns the consumer's verified identity public key once the handshake is confirmed
+   */
+  getPeerIdentity(): KeyObject | null {
+    if (!this.handshakeState.confirmed) {
+      return null;
+    }
+
+    return this.handshakeState.consumerIdentity ?? null;
+  }
+
   /**
    * Checks if the handshake has been successfully completed and confirmed
    */
@@ -188,11 +430,7 @@ export class SecureProvider {
   }
 
   private _normalizeMessage(raw: any): any {
-    try {
-      return typeof raw === 'string' ? JSON.parse(raw) : raw;
-    } catch {
-      throw new Error('Invalid message format');
-    }
+    return typeof raw === 'string' ? parseJson(raw, this.parseLimits) : raw;
   }
 
   /**
@@ -206,12 +444,23 @@ export class SecureProvider {
       this.handshakeState.derivedKeys.encryptionKey.fill(0);
       this.handshakeState.derivedKeys.authenticationKey.fill(0);
       this.handshakeState.derivedKeys.confirmationKey.fill(0);
+      for (const keys of [
+        this.handshakeState.derivedKeys.clientToServer,
+        this.handshakeState.derivedKeys.serverToClient,
+      ]) {
+        keys.encryptionKey.fill(0);
+        keys.authenticationKey.fill(0);
+        keys.iv?.fill(0);
+      }
       this.handshakeState.derivedKeys = undefined;
     }
     this.handshakeState.providerNonce.fill(0);
     if (this.handshakeState.consumerNonce) {
       this.handshakeState.consumerNonce.fill(0);
     }
+    this.handshakeState.transcriptHash?.fill(0);
+    this.psk?.key.fill(0);
+    this.handshakeState.consumerIdentity = undefined;
     this.handshakeState.confirmed = false;
   }
 }
@@ -0,0 +1,106 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  BaseEncryptionPlugin,
+  type EncryptionContext,
+  type EncryptionKeys,
+  type EncryptionResult,
+} from '../BaseEncryptionPlugin.ts';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { EncryptThenMacPlugin } from '../EncryptThenMacPlugin.ts';
+import { createEncryptionPlugin } from '../cipher-suites.ts';
+import { generateKeys } from '../crypto-utils.ts';
+import { handshakeKeys } from './handshake.ts';
+
+class RecordingPlugin extends BaseEncryptionPlugin {
+  contexts: (EncryptionContext | undefined)[] = [];
+
+  constructor(keys?: EncryptionKeys) {
+    super('recording', keys);
+  }
+
+  encrypt(plaintext: string, context?: EncryptionContext): EncryptionResult {
+    this.contexts.push(context);
+    return { data: plaintext, metadata: { aad: this.encodeAdditionalData(context).toString() } };
+  }
+
+  decrypt(encrypted: EncryptionResult, context?: EncryptionContext): string {
+    this.contexts.push(context);
+    if (encrypted.metadata?.aad !== this.encodeAdditionalData(context).toString()) {
+      throw new Error('Context mismatch');
+    }
+    return encrypted.data;
+  }
+}
+
+describe('Authenticated Associated Data', () => {
+  test('handshake keys carry the session ID and role', () => {
+    const { providerKeys, consumerKeys } = handshakeKeys();
+
+    expect(providerKeys.sessionId).toBeString();
+    expect(consumerKeys.sessionId).toBe(providerKeys.sessionId);
+    expect(providerKeys.role).toBe('server');
+    expect(consumerKeys.role).toBe('client');
+  });
+
+  test('messages flow between the two ends of a session', () => {
+    const { providerKeys, consumerKeys } = handshakeKeys();
+    const server = createEncryptionPlugin(providerKeys);
+    const client = createEncryptionPlugin(consumerKeys);
+
+    expect(server.unwrapMessage(client.wrapMessage('hello', { n: 1 }))).toEqual({
+      type: 'hello',
+      payload: { n: 1 },
+    });
+    expect(client.unwrapMessage(server.wrapMessage('hi', { n: 2 }))).toEqual({
+      type: 'hi',
+      payload: { n: 2 },
+    });
+  });
+
+  test('passes the session, direction and envelope fields to the plugin', () => {
+    const keys = { ...generateKeys(), sessionId: 'session-1', role: 'client' as const };
+    const plugin = new RecordingPlugin(keys);
+
+    plugin.processOutgoingMessage({ type: 'ping' });
+
+    expect(plugin.contexts[0]).toEqual({
+      type: 'encrypted-plugin-message',
+      algorithm: 'recording',
+      seq: 0,
+      sessionId: 'session-1',
+      direction: 'client-to-server',
+    });
+  });
+
+  test('rejects a ciphertext spliced into another session sharing the same key', () => {
+    const keys = generateKeys();
+    const sessionA = new MessageEncryptionPlugin({ ...keys, sessionId: 'a' });
+    const sessionB = new MessageEncryptionPlugin({ ...keys, sessionId: 'b' });
+
+    const message = sessionA.wrapMessage('transfer', { amount: 100 });
+
+    expect(sessionB.unwrapMessage(message)).toBeNull();
+  });
+
+  test('rejects a message reflected back to its sender even under shared keys', () => {
+    const keys = generateKeys();
+    const client = new EncryptThenMacPlugin({ ...keys, sessionId: 's', role: 'client' });
+    const server = new EncryptThenMacPlugin({ ...keys, sessionId: 's', role: 'server' });
+
+    const message = client.wrapMessage('transfer', { amount: 100 });
+
+    expect(client.unwrapMessage(message)).toBeNull();
+    expect(server.unwrapMessage(message)).toEqual({ type: 'transfer', payload: { amount: 100 } });
+  });
+
+  test('authenticates the outer envelope fields', () => {
+    const keys = generateKeys();
+    const sender = new RecordingPlugin(keys);
+    const receiver = new RecordingPlugin(keys);
+
+    const envelope = JSON.parse(sender.wrapMessage('transfer', { amount: 100 }));
+    delete envelope.algorithm;
+
+    expect(receiver.unwrapMessage(JSON.stringify(envelope))).toBeNull();
+  });
+});
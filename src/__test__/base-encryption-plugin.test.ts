@@ -1,10 +1,14 @@
-import { BaseEncryptionPlugin, type EncryptionKeys } from '../BaseEncryptionPlugin';
+import {
+  BaseEncryptionPlugin,
+  type EncryptionKeys,
+  type EncryptionPluginOptions,
+} from '../BaseEncryptionPlugin';
 import { randomBytes } from 'crypto';
 import { expect, test, describe } from 'bun:test';
 
 class TestPlugin extends BaseEncryptionPlugin {
-  constructor(keys?: EncryptionKeys) {
-    super('test-algo', keys);
+  constructor(keys?: EncryptionKeys, options?: EncryptionPluginOptions) {
+    super('test-algo', keys, options);
   }
 
   encrypt(data: string): { data: string; metadata: any } {
@@ -70,7 +74,7 @@ describe('BaseEncryptionPlugin', () => {
   });
 
   test('processIncomingMessage should pass through when not encrypted', () => {
-    const plugin = new TestPlugin(testKeys);
+    const plugin = new TestPlugin(testKeys, { strict: false });
     const message = { type: 'test', payload: 'hello' };
     const processed = plugin.processIncomingMessage(JSON.stringify(message));
     expect(processed).toEqual(message);
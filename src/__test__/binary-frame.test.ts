@@ -0,0 +1,164 @@
+import { test, expect, describe } from 'bun:test';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { decodeFrame, encodeFrame, isBinaryFrame, FRAME_VERSION } from '../binary-frame.ts';
+import { generateKeys } from '../crypto-utils.ts';
+import { MessageParseError } from '../errors.ts';
+import { resolveParseLimits } from '../safe-json.ts';
+import type { PluginMessage } from '../BaseEncryptionPlugin.ts';
+
+function createPair() {
+  const keys = generateKeys();
+  const clientToServer = { ...generateKeys(), iv: Buffer.alloc(12, 7) };
+  return {
+    sender: new MessageEncryptionPlugin({ ...keys, send: clientToServer }),
+    // The receiver holds its own copy, as it would across a real connection
+    receiver: new MessageEncryptionPlugin({
+      ...keys,
+      receive: {
+        encryptionKey: Buffer.from(clientToServer.encryptionKey),
+        authenticationKey: Buffer.from(clientToServer.authenticationKey),
+        iv: Buffer.from(clientToServer.iv),
+      },
+    }),
+    counterSender: new MessageEncryptionPlugin(
+      { ...keys, send: clientToServer },
+      { nonceMode: 'counter' },
+    ),
+  };
+}
+
+describe('Binary Frames', () => {
+  test('round-trips an envelope through a frame', () => {
+    const envelope: PluginMessage = {
+      type: 'encrypted-plugin-message',
+      algorithm: 'chacha20-poly1305',
+      payload: null,
+      seq: 42,
+      encrypted: {
+        data: Buffer.from('ciphertext').toString('base64'),
+        metadata: {
+          iv: Buffer.alloc(12, 1).toString('base64'),
+          tag: Buffer.alloc(16, 2).toString('base64'),
+        },
+      },
+    };
+
+    const frame = encodeFrame(envelope);
+
+    expect(frame[0]).toBe(FRAME_VERSION);
+    expect(frame).toHaveLength(11 + 12 + 10 + 16);
+    expect(decodeFrame(frame)).toEqual(envelope);
+  });
+
+  test('is smaller than the equivalent JSON envelope', () => {
+    const { sender } = createPair();
+    const message = { type: 'chat', payload: 'x'.repeat(300) };
+
+    const json = sender.processOutgoingMessage(message);
+    const frame = sender.processOutgoingFrame(message);
+
+    expect(frame.length).toBeLessThan(Buffer.byteLength(json) * 0.75);
+  });
+
+  test('decrypts frames and JSON envelopes through the same entry point', () => {
+    const { sender, receiver } = createPair();
+
+    const frame = sender.wrapFrame('transfer', { amount: 100 });
+    const json = sender.wrapMessage('transfer', { amount: 200 });
+
+    expect(isBinaryFrame(frame)).toBe(true);
+    expect(isBinaryFrame(Buffer.from(json))).toBe(false);
+    expect(receiver.unwrapMessage(frame)).toEqual({ type: 'transfer', payload: { amount: 100 } });
+    expect(receiver.unwrapMessage(Buffer.from(json))).toEqual({
+      type: 'transfer',
+      payload: { amount: 200 },
+    });
+  });
+
+  test('seals and opens frames without a base64 round trip', () => {
+    class RawOnlyPlugin extends MessageEncryptionPlugin {
+      encryptBytes(): never {
+        throw new Error('base64 path used');
+      }
+      decryptBytes(): never {
+        throw new Error('base64 path used');
+      }
+    }
+    const keys = generateKeys();
+    const sender = new RawOnlyPlugin(keys);
+    const receiver = new RawOnlyPlugin(keys);
+    const payload = Buffer.alloc(64 * 1024, 0x5a);
+
+    expect(receiver.unwrapMessage(sender.wrapFrame('blob', payload))?.payload).toEqual(payload);
+    expect(receiver.unwrapMessage(sender.wrapFrame('chat', 'hello'))?.payload).toBe('hello');
+    expect(receiver.processIncomingMessage(sender.createKeyUpdateFrame())).toEqual({
+      type: 'key-update',
+      generation: 1,
+    });
+  });
+
+  test('omits the nonce when counter nonces are in use', () => {
+    const { sender, counterSender, receiver } = createPair();
+
+    const withNonce = sender.wrapFrame('ping', 'hello');
+    const withoutNonce = counterSender.wrapFrame('ping', 'hello');
+
+    expect(withoutNonce.length).toBe(withNonce.length - 12);
+    expect(receiver.unwrapMessage(withoutNonce)).toEqual({ type: 'ping', payload: 'hello' });
+  });
+
+  test('carries key updates', () => {
+    const { counterSender, receiver } = createPair();
+
+    const update = counterSender.createKeyUpdateFrame();
+
+    expect(decodeFrame(update).type).toBe('key-update');
+    expect(receiver.processIncomingMessage(update)).toEqual({ type: 'key-update', generation: 1 });
+  });
+
+  test('rejects tampered frames', () => {
+    const { sender, receiver } = createPair();
+
+    const frame = sender.wrapFrame('transfer', { amount: 100 });
+    frame[2] = frame[2]! | 0x01; // relabel as a key update
+
+    expect(receiver.unwrapMessage(frame)).toBeNull();
+  });
+
+  test('rejects malformed frames', () => {
+    expect(() => decodeFrame(Buffer.from([FRAME_VERSION, 0x01, 0x00]))).toThrow(
+      'Malformed binary frame',
+    );
+    expect(() =>
+      decodeFrame(Buffer.from([FRAME_VERSION, 0x7f, 0, 0, 0, 0, 0, 0, 0, 0, 0])),
+    ).toThrow('Unknown binary frame algorithm id');
+    expect(() =>
+      decodeFrame(Buffer.concat([Buffer.from([FRAME_VERSION, 0x01, 0x80]), Buffer.alloc(30)])),
+    ).toThrow('Unsupported binary frame flags');
+  });
+
+  test('parses the transforms header under the parse limits', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys(), {
+      parseLimits: { maxDepth: 4, maxStringLength: 64 },
+    });
+    const envelope = JSON.parse(plugin.wrapMessage('ping', null));
+    const deep = encodeFrame({ ...envelope, transforms: JSON.parse('[[[[[["gzip"]]]]]]') });
+    const long = encodeFrame({ ...envelope, transforms: ['x'.repeat(1024)] });
+
+    expect(() => plugin.processIncomingMessage(deep)).toThrow(MessageParseError);
+    expect(() => plugin.processIncomingMessage(deep)).toThrow('Message nested too deeply');
+    expect(() => plugin.processIncomingMessage(long)).toThrow('Message string too long');
+    expect(() => decodeFrame(long, resolveParseLimits({ maxStringLength: 64 }))).toThrow(
+      'Message string too long',
+    );
+  });
+
+  test('only frames algorithms with a registered id', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+    const envelope = JSON.parse(plugin.wrapMessage('ping', null));
+
+    expect(() => encodeFrame({ ...envelope, algorithm: 'my-cipher' })).toThrow(
+      'Algorithm my-cipher has no binary frame encoding',
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { test, expect, describe } from 'bun:test';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { EncryptThenMacPlugin } from '../EncryptThenMacPlugin.ts';
+import {
+  BaseEncryptionPlugin,
+  type EncryptionKeys,
+  type EncryptionResult,
+} from '../BaseEncryptionPlugin.ts';
+import { generateKeys } from '../crypto-utils.ts';
+
+// Every byte value, including sequences that are not valid UTF-8
+const bytes = Buffer.from(Array.from({ length: 512 }, (_, i) => (i * 7) % 256));
+
+class HexTextPlugin extends BaseEncryptionPlugin {
+  constructor(keys?: EncryptionKeys) {
+    super('text-only', keys);
+  }
+
+  encrypt(plaintext: string): EncryptionResult {
+    return { data: Buffer.from(plaintext, 'utf8').toString('hex') };
+  }
+
+  decrypt(encrypted: EncryptionResult): string {
+    return Buffer.from(encrypted.data, 'hex').toString('utf8');
+  }
+}
+
+describe('Binary Payloads', () => {
+  test('wrapMessage round-trips a Buffer payload byte-exactly', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+
+    const wrapped = plugin.wrapMessage('image', bytes);
+    const unwrapped = plugin.unwrapMessage(wrapped);
+
+    expect(JSON.parse(wrapped).binary).toBe(true);
+    expect(unwrapped?.type).toBe('image');
+    expect(Buffer.isBuffer(unwrapped?.payload)).toBe(true);
+    expect(unwrapped?.payload.equals(bytes)).toBe(true);
+  });
+
+  test('accepts Uint8Array payloads', () => {
+    const plugin = new EncryptThenMacPlugin(generateKeys());
+    const protobuf = new Uint8Array([0x08, 0x96, 0x01, 0xff, 0x00]);
+
+    const unwrapped = plugin.unwrapMessage(plugin.wrapMessage('proto', protobuf));
+
+    expect(unwrapped?.payload).toEqual(Buffer.from(protobuf));
+  });
+
+  test('processOutgoingMessage accepts a bare Buffer', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+
+    const processed = plugin.processIncomingMessage(plugin.processOutgoingMessage(bytes));
+
+    expect(Buffer.isBuffer(processed)).toBe(true);
+    expect(processed.equals(bytes)).toBe(true);
+  });
+
+  test('keeps other message fields alongside the binary payload', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+
+    const processed = plugin.processIncomingMessage(
+      plugin.processOutgoingMessage({ type: 'upload', name: 'photo.png', payload: bytes }),
+    );
+
+    expect(processed.type).toBe('upload');
+    expect(processed.name).toBe('photo.png');
+    expect(processed.payload.equals(bytes)).toBe(true);
+  });
+
+  test('round-trips through binary frames', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+
+    const unwrapped = plugin.unwrapMessage(plugin.wrapFrame('image', bytes));
+
+    expect(unwrapped?.payload.equals(bytes)).toBe(true);
+  });
+
+  test('authenticates the binary flag', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+
+    const envelope = JSON.parse(plugin.wrapMessage('image', bytes));
+    delete envelope.binary;
+
+    expect(plugin.unwrapMessage(JSON.stringify(envelope))).toBeNull();
+  });
+
+  test('works with plugins that only encrypt text', () => {
+    const plugin = new HexTextPlugin(generateKeys());
+
+    const unwrapped = plugin.unwrapMessage(plugin.wrapMessage('image', bytes));
+
+    expect(unwrapped?.payload.equals(bytes)).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { ChaCha20Poly1305Plugin } from '../ChaCha20Poly1305Plugin';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin';
+import { generateKeys } from '../crypto-utils';
+import { expect, test, describe } from 'bun:test';
+
+describe('ChaCha20Poly1305Plugin', () => {
+  test('should encrypt and decrypt a message', () => {
+    const keys = generateKeys();
+    const plugin = new ChaCha20Poly1305Plugin(keys);
+    const message = 'hello world';
+
+    const encrypted = plugin.encrypt(message);
+    const decrypted = plugin.decrypt(encrypted);
+
+    expect(decrypted).toBe(message);
+  });
+
+  test('uses the same envelope as the AES-256-GCM plugin', () => {
+    const keys = generateKeys();
+    const chacha = JSON.parse(new ChaCha20Poly1305Plugin(keys).wrapMessage('chat', 'hi'));
+    const aes = JSON.parse(new MessageEncryptionPlugin(keys).wrapMessage('chat', 'hi'));
+
+    expect(Object.keys(chacha).sort()).toEqual(Object.keys(aes).sort());
+    expect(Object.keys(chacha.encrypted.metadata).sort()).toEqual(['iv', 'tag']);
+    expect(chacha.algorithm).toBe('chacha20-poly1305');
+  });
+
+  test('encrypts with the send key and decrypts with the receive key', () => {
+    const shared = generateKeys();
+    const clientToServer = generateKeys();
+    const serverToClient = generateKeys();
+
+    const server = new ChaCha20Poly1305Plugin({
+      ...shared,
+      send: serverToClient,
+      receive: clientToServer,
+    });
+    const client = new ChaCha20Poly1305Plugin({
+      ...shared,
+      send: clientToServer,
+      receive: serverToClient,
+    });
+
+    expect(client.decrypt(server.encrypt('to client'))).toBe('to client');
+    expect(server.decrypt(client.encrypt('to server'))).toBe('to server');
+  });
+
+  test('rejects messages reflected back to their sender', () => {
+    const server = new ChaCha20Poly1305Plugin({
+      ...generateKeys(),
+      send: generateKeys(),
+      receive: generateKeys(),
+    });
+
+    const reflected = server.wrapMessage('transfer', { amount: 100 });
+
+    expect(() => server.decrypt(JSON.parse(reflected).encrypted)).toThrow();
+    expect(server.unwrapMessage(reflected)).toBeNull();
+  });
+
+  test('rejects tampered ciphertext', () => {
+    const plugin = new ChaCha20Poly1305Plugin(generateKeys());
+    const encrypted = plugin.encrypt('hello world');
+    const data = Buffer.from(encrypted.data, 'base64');
+    data[0]! ^= 0x01;
+
+    expect(() => plugin.decrypt({ ...encrypted, data: data.toString('base64') })).toThrow();
+  });
+
+  test('refuses AES-256-GCM envelopes', () => {
+    const keys = generateKeys();
+    const plugin = new ChaCha20Poly1305Plugin(keys);
+    const aesMessage = new MessageEncryptionPlugin(keys).wrapMessage('chat', 'hi');
+
+    expect(plugin.unwrapMessage(aesMessage)).toBeNull();
+  });
+
+  test('getAlgorithmName should return correct algorithm', () => {
+    const plugin = new ChaCha20Poly1305Plugin();
+    expect(plugin.getAlgorithmName()).toBe('chacha20-poly1305');
+  });
+});
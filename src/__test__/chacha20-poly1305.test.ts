@@ -0,0 +1,52 @@
+import { test, expect, describe } from 'bun:test';
+import { chacha20Poly1305Open, chacha20Poly1305Seal } from '../chacha20-poly1305.ts';
+import { randomBytes } from 'crypto';
+
+// RFC 8439 section 2.8.2 AEAD test vector
+const key = Buffer.from('808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f', 'hex');
+const nonce = Buffer.from('070000004041424344454647', 'hex');
+const aad = Buffer.from('50515253c0c1c2c3c4c5c6c7', 'hex');
+const plaintext = Buffer.from(
+  "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.",
+);
+const expectedCiphertext = Buffer.from(
+  'd31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d6' +
+    '3dbea45e8ca9671282fafb69da92728b1a71de0a9e060b2905d6a5b67ecd3b36' +
+    '92ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc' +
+    '3ff4def08e4b7a9de576d26586cec64b6116',
+  'hex',
+);
+const expectedTag = Buffer.from('1ae10b594f09e26a7e902ecbd0600691', 'hex');
+
+describe('ChaCha20-Poly1305', () => {
+  test('matches the RFC 8439 test vector', () => {
+    const { ciphertext, tag } = chacha20Poly1305Seal(key, nonce, plaintext, aad);
+
+    expect(ciphertext.equals(expectedCiphertext)).toBe(true);
+    expect(tag.equals(expectedTag)).toBe(true);
+  });
+
+  test('opens the RFC 8439 test vector', () => {
+    const opened = chacha20Poly1305Open(key, nonce, expectedCiphertext, expectedTag, aad);
+    expect(opened.equals(plaintext)).toBe(true);
+  });
+
+  test('round-trips multi-block payloads', () => {
+    const data = randomBytes(1000);
+    const sealed = chacha20Poly1305Seal(key, nonce, data);
+    expect(chacha20Poly1305Open(key, nonce, sealed.ciphertext, sealed.tag).equals(data)).toBe(true);
+  });
+
+  test('rejects tampered ciphertext', () => {
+    const tampered = Buffer.from(expectedCiphertext);
+    tampered[0] = (tampered[0] || 0) ^ 0x01;
+
+    expect(() => chacha20Poly1305Open(key, nonce, tampered, expectedTag, aad)).toThrow();
+  });
+
+  test('rejects mismatched associated data', () => {
+    expect(() =>
+      chacha20Poly1305Open(key, nonce, expectedCiphertext, expectedTag, Buffer.from('other')),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,112 @@
+import { test, expect, describe } from 'bun:test';
+import { SecureProvider } from '../SecureProvider.ts';
+import { SecureConsumer } from '../SecureConsumer.ts';
+import {
+  DEFAULT_CIPHER_SUITES,
+  createEncryptionPlugin,
+  selectCipherSuite,
+} from '../cipher-suites.ts';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { ChaCha20Poly1305Plugin } from '../ChaCha20Poly1305Plugin.ts';
+import { EncryptThenMacPlugin } from '../EncryptThenMacPlugin.ts';
+import { captureInit, runHandshake } from './handshake.ts';
+
+describe('Cipher Suite Negotiation', () => {
+  test('advertises suites in preference order', () => {
+    const { init } = runHandshake({ cipherSuites: ['aes-256-ctr-hmac-sha256', 'aes-256-gcm'] });
+    expect(init.supportedCiphers).toEqual(['aes-256-ctr-hmac-sha256', 'aes-256-gcm']);
+  });
+
+  test("follows the provider's preference", () => {
+    const { provider, consumer, response } = runHandshake(
+      { cipherSuites: ['aes-256-ctr-hmac-sha256', 'aes-256-gcm'] },
+      { cipherSuites: ['aes-256-gcm', 'aes-256-ctr-hmac-sha256'] },
+    );
+
+    expect(response.selectedCipher).toBe('aes-256-ctr-hmac-sha256');
+    expect(provider.getDerivedKeys()!.cipher).toBe('aes-256-ctr-hmac-sha256');
+    expect(consumer.getDerivedKeys()!.cipher).toBe('aes-256-ctr-hmac-sha256');
+  });
+
+  test('falls back to a suite both parties support', () => {
+    const { provider, consumer } = runHandshake(
+      { cipherSuites: ['aes-256-ctr-hmac-sha256', 'aes-256-gcm'] },
+      { cipherSuites: ['aes-256-gcm'] },
+    );
+
+    expect(provider.getDerivedKeys()!.cipher).toBe('aes-256-gcm');
+    expect(consumer.getDerivedKeys()!.cipher).toBe('aes-256-gcm');
+  });
+
+  test('defaults to aes-256-gcm', () => {
+    const { provider } = runHandshake();
+    expect(provider.getDerivedKeys()!.cipher).toBe('aes-256-gcm');
+  });
+
+  test('fails when no suite is shared', () => {
+    const { result } = runHandshake(
+      { cipherSuites: ['aes-256-ctr-hmac-sha256'] },
+      { cipherSuites: ['aes-256-gcm'] },
+    );
+    expect(result.error).toBe('Unsupported cryptographic algorithms');
+  });
+
+  test('provider rejects a suite it did not offer', () => {
+    const provider = new SecureProvider({ cipherSuites: ['aes-256-gcm'] });
+    const consumer = new SecureConsumer();
+
+    const consumerResponse = consumer.handleMessage(JSON.stringify(captureInit(provider)));
+    consumerResponse.response.selectedCipher = 'aes-256-ctr-hmac-sha256';
+
+    const result = provider.handleResponse(consumerResponse.response);
+    expect(result.type).toBe('error');
+    expect(result.error).toBe('Unsupported cipher suite selected');
+  });
+
+  test('rejects unknown suites in configuration', () => {
+    expect(() => new SecureProvider({ cipherSuites: ['rot13' as any] })).toThrow(
+      'Unknown cipher suite: rot13',
+    );
+    expect(() => new SecureConsumer({ cipherSuites: [] })).toThrow(
+      'At least one cipher suite must be enabled',
+    );
+  });
+
+  test('offers chacha20-poly1305 by default', () => {
+    const { init, provider } = runHandshake({}, { cipherSuites: ['chacha20-poly1305'] });
+
+    expect(DEFAULT_CIPHER_SUITES).toEqual(['aes-256-gcm', 'chacha20-poly1305']);
+    expect(init.supportedCiphers).toEqual(['aes-256-gcm', 'chacha20-poly1305']);
+    expect(provider.getDerivedKeys()!.cipher).toBe('chacha20-poly1305');
+  });
+
+  test('selectCipherSuite ignores malformed offers', () => {
+    expect(selectCipherSuite('aes-256-gcm', ['aes-256-gcm'])).toBeUndefined();
+    expect(selectCipherSuite([42, 'aes-256-gcm'], ['aes-256-gcm'])).toBe('aes-256-gcm');
+  });
+});
+
+describe('createEncryptionPlugin', () => {
+  test.each([
+    ['aes-256-gcm', MessageEncryptionPlugin],
+    ['chacha20-poly1305', ChaCha20Poly1305Plugin],
+    ['aes-256-ctr-hmac-sha256', EncryptThenMacPlugin],
+  ] as const)('instantiates matching plugins on both ends for %s', (suite, Plugin) => {
+    const { provider, consumer } = runHandshake(
+      { cipherSuites: [suite] },
+      { cipherSuites: [suite] },
+    );
+
+    const providerPlugin = createEncryptionPlugin(provider.getDerivedKeys()!);
+    const consumerPlugin = createEncryptionPlugin(consumer.getDerivedKeys()!);
+
+    expect(providerPlugin).toBeInstanceOf(Plugin);
+    expect(consumerPlugin.getAlgorithmName()).toBe(suite);
+
+    const wrapped = providerPlugin.wrapMessage('chat', 'negotiated hello');
+    expect(consumerPlugin.unwrapMessage(wrapped)).toEqual({
+      type: 'chat',
+      payload: 'negotiated hello',
+    });
+  });
+});
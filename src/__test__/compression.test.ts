@@ -0,0 +1,118 @@
+import { test, expect, describe } from 'bun:test';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { EncryptThenMacPlugin } from '../EncryptThenMacPlugin.ts';
+import { DecryptionError } from '../errors.ts';
+import { decodeFrame } from '../binary-frame.ts';
+import { generateKeys } from '../crypto-utils.ts';
+import type { CompressionAlgorithm } from '../compression.ts';
+
+const telemetry = {
+  type: 'telemetry',
+  readings: Array.from({ length: 200 }, (_, i) => ({ sensor: 'temperature', value: i % 7 })),
+};
+
+function envelopeOf(message: string) {
+  return JSON.parse(message);
+}
+
+function compressionOf(message: string): string | undefined {
+  return envelopeOf(message).transforms?.find((stage: any) => stage.name === 'compress')?.params
+    .algorithm;
+}
+
+describe('Compression', () => {
+  for (const algorithm of ['deflate', 'gzip', 'brotli'] as CompressionAlgorithm[]) {
+    test(`round-trips with ${algorithm}`, () => {
+      const keys = generateKeys();
+      const sender = new MessageEncryptionPlugin(keys, { compression: { algorithm } });
+      const receiver = new MessageEncryptionPlugin(keys);
+
+      const plain = new MessageEncryptionPlugin(keys).processOutgoingMessage(telemetry);
+      const compressed = sender.processOutgoingMessage(telemetry);
+
+      expect(compressionOf(compressed)).toBe(algorithm);
+      expect(compressed.length * 5).toBeLessThan(plain.length);
+      expect(receiver.processIncomingMessage(compressed)).toEqual(telemetry);
+    });
+  }
+
+  test('leaves small and incompressible messages alone', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys(), {
+      compression: { algorithm: 'deflate', minSize: 0 },
+    });
+    const small = new MessageEncryptionPlugin(generateKeys(), {
+      compression: { algorithm: 'deflate' },
+    });
+
+    const random = generateKeys().encryptionKey.toString('base64');
+
+    expect(compressionOf(plugin.processOutgoingMessage(random))).toBeUndefined();
+    expect(compressionOf(small.processOutgoingMessage({ type: 'ack' }))).toBeUndefined();
+  });
+
+  test('skips excluded message types', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys(), {
+      compression: { algorithm: 'brotli', excludeTypes: ['telemetry'] },
+    });
+
+    expect(compressionOf(plugin.processOutgoingMessage(telemetry))).toBeUndefined();
+    expect(compressionOf(plugin.processOutgoingMessage({ ...telemetry, type: 'other' }))).toBe(
+      'brotli',
+    );
+  });
+
+  test('combines with binary payloads, padding and frames', () => {
+    const keys = generateKeys();
+    const sender = new EncryptThenMacPlugin(keys, {
+      compression: { algorithm: 'gzip' },
+      padding: { type: 'block', blockSize: 64 },
+    });
+    const receiver = new EncryptThenMacPlugin(keys);
+    const bytes = Buffer.alloc(4096, 0x2a);
+
+    const frame = sender.wrapFrame('blob', bytes);
+
+    expect(decodeFrame(frame)).toMatchObject({
+      binary: true,
+      transforms: [{ name: 'compress', params: { algorithm: 'gzip' } }, { name: 'pad' }],
+    });
+    expect(frame.length).toBeLessThan(300);
+    expect(receiver.unwrapMessage(frame)?.payload).toEqual(bytes);
+  });
+
+  test('enforces the decompressed size limit', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, { compression: { algorithm: 'deflate' } });
+    const receiver = new MessageEncryptionPlugin(keys, {
+      compression: { algorithm: 'deflate', maxDecompressedSize: 1024 },
+    });
+
+    const bomb = sender.processOutgoingMessage('0'.repeat(1024 * 1024));
+
+    expect(Buffer.byteLength(bomb)).toBeLessThan(4096);
+    expect(() => receiver.processIncomingMessage(bomb)).toThrow(DecryptionError);
+    expect(() => receiver.processIncomingMessage(bomb)).toThrow(
+      'Decompressed message exceeds 1024 bytes',
+    );
+  });
+
+  test('authenticates the compression flag', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, { compression: { algorithm: 'deflate' } });
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    const envelope = envelopeOf(sender.processOutgoingMessage(telemetry));
+    envelope.transforms[0].params.algorithm = 'gzip';
+
+    expect(receiver.unwrapMessage(JSON.stringify(envelope))).toBeNull();
+  });
+
+  test('validates its options', () => {
+    expect(
+      () =>
+        new MessageEncryptionPlugin(generateKeys(), {
+          compression: { algorithm: 'lzma' as CompressionAlgorithm },
+        }),
+    ).toThrow('Unknown compression algorithm: lzma');
+  });
+});
@@ -0,0 +1,108 @@
+import { test, expect, describe } from 'bun:test';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { createEncryptionPlugin } from '../cipher-suites.ts';
+import { counterNonce, generateKeys } from '../crypto-utils.ts';
+import { handshakeKeys } from './handshake.ts';
+
+function directionalKeys() {
+  const clientToServer = { ...generateKeys(), iv: Buffer.alloc(12, 1) };
+  const serverToClient = { ...generateKeys(), iv: Buffer.alloc(12, 2) };
+  return {
+    server: { ...generateKeys(), send: serverToClient, receive: clientToServer },
+    client: { ...generateKeys(), send: clientToServer, receive: serverToClient },
+  };
+}
+
+describe('Counter Nonces', () => {
+  test('XORs the sequence number into the low bytes of the IV', () => {
+    const iv = Buffer.from('000102030405060708090a0b', 'hex');
+
+    expect(counterNonce(iv, 0).toString('hex')).toBe('000102030405060708090a0b');
+    expect(counterNonce(iv, 1).toString('hex')).toBe('000102030405060708090a0a');
+    expect(counterNonce(iv, 0x0100000000).toString('hex')).toBe('000102030405060608090a0b');
+    expect(iv.toString('hex')).toBe('000102030405060708090a0b');
+  });
+
+  test('the handshake derives a distinct IV for each direction', () => {
+    const { providerKeys, consumerKeys } = handshakeKeys();
+
+    expect(providerKeys.send!.iv).toHaveLength(12);
+    expect(providerKeys.send!.iv!.equals(consumerKeys.receive!.iv!)).toBe(true);
+    expect(providerKeys.send!.iv!.equals(providerKeys.receive!.iv!)).toBe(false);
+  });
+
+  test('omits the IV from the wire and still round-trips', () => {
+    const { providerKeys, consumerKeys } = handshakeKeys();
+    const server = createEncryptionPlugin(providerKeys, { nonceMode: 'counter' });
+    const client = createEncryptionPlugin(consumerKeys, { nonceMode: 'counter' });
+
+    const message = client.wrapMessage('hello', { n: 1 });
+
+    expect(JSON.parse(message).encrypted.metadata.iv).toBeUndefined();
+    expect(server.unwrapMessage(message)).toEqual({ type: 'hello', payload: { n: 1 } });
+  });
+
+  test('a receiver accepts counter nonces whichever mode it sends with', () => {
+    const keys = directionalKeys();
+    const server = new MessageEncryptionPlugin(keys.server);
+    const client = new MessageEncryptionPlugin(keys.client, { nonceMode: 'counter' });
+
+    expect(server.unwrapMessage(client.wrapMessage('a', 1))).toEqual({ type: 'a', payload: 1 });
+    expect(client.unwrapMessage(server.wrapMessage('b', 2))).toEqual({ type: 'b', payload: 2 });
+  });
+
+  test('keeps counter nonces across key updates', () => {
+    const keys = directionalKeys();
+    const server = new MessageEncryptionPlugin(keys.server, { keyUpdateGraceMs: 0 });
+    const client = new MessageEncryptionPlugin(keys.client, { nonceMode: 'counter' });
+
+    server.processIncomingMessage(client.createKeyUpdate());
+    const message = client.wrapMessage('after', true);
+
+    expect(JSON.parse(message).encrypted.metadata.iv).toBeUndefined();
+    expect(server.unwrapMessage(message)).toEqual({ type: 'after', payload: true });
+  });
+
+  test('refuses send keys that have already been used', () => {
+    const { consumerKeys } = handshakeKeys();
+    const client = createEncryptionPlugin(consumerKeys, { nonceMode: 'counter' });
+
+    expect(() => client.setKeys(consumerKeys)).toThrow(
+      'Counter nonces require fresh keys; these send keys were already used',
+    );
+    expect(() => createEncryptionPlugin(consumerKeys, { nonceMode: 'counter' })).toThrow(
+      'Counter nonces require fresh keys',
+    );
+    expect(() =>
+      createEncryptionPlugin(
+        {
+          ...consumerKeys,
+          send: { ...consumerKeys.send!, iv: Buffer.from(consumerKeys.send!.iv!) },
+        },
+        { nonceMode: 'counter' },
+      ),
+    ).toThrow('Counter nonces require fresh keys');
+    expect(createEncryptionPlugin(consumerKeys).wrapMessage('a', 1)).toContain('"iv"');
+  });
+
+  test('refuses send keys a random-nonce plugin has sent under', () => {
+    const { providerKeys, consumerKeys } = handshakeKeys();
+    createEncryptionPlugin(providerKeys).wrapMessage('a', 1);
+    createEncryptionPlugin(consumerKeys);
+
+    expect(() => createEncryptionPlugin(providerKeys, { nonceMode: 'counter' })).toThrow(
+      'Counter nonces require fresh keys',
+    );
+    expect(
+      createEncryptionPlugin(consumerKeys, { nonceMode: 'counter' }).wrapMessage('b', 2),
+    ).not.toContain('"iv"');
+  });
+
+  test('requires a per-direction IV', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys(), { nonceMode: 'counter' });
+
+    expect(() => plugin.processOutgoingMessage('hello')).toThrow(
+      'Counter nonces require a per-direction IV',
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { EncryptThenMacPlugin } from '../EncryptThenMacPlugin';
+import { SecureProvider } from '../SecureProvider';
+import { SecureConsumer } from '../SecureConsumer';
+import { createEncryptionPlugin } from '../cipher-suites';
+import { decodeFrame } from '../binary-frame';
+import { generateKeys } from '../crypto-utils';
+import { expect, test, describe } from 'bun:test';
+
+describe('EncryptThenMacPlugin', () => {
+  test('should encrypt and decrypt a message', () => {
+    const plugin = new EncryptThenMacPlugin(generateKeys());
+
+    const encrypted = plugin.encrypt('hello world');
+
+    expect(Buffer.from(encrypted.metadata.iv, 'base64')).toHaveLength(16);
+    expect(Buffer.from(encrypted.metadata.tag, 'base64')).toHaveLength(32);
+    expect(plugin.decrypt(encrypted)).toBe('hello world');
+  });
+
+  test('authenticates under the authentication key', () => {
+    const keys = generateKeys();
+    const sender = new EncryptThenMacPlugin(keys);
+    const receiver = new EncryptThenMacPlugin({
+      encryptionKey: Buffer.from(keys.encryptionKey),
+      authenticationKey: generateKeys().authenticationKey,
+    });
+
+    expect(() => receiver.decrypt(sender.encrypt('hello'))).toThrow('Authentication failed');
+  });
+
+  test('rejects tampered ciphertext, IV and tag', () => {
+    const plugin = new EncryptThenMacPlugin(generateKeys());
+    const encrypted = plugin.encrypt('transfer 100');
+
+    const flip = (value: string) => {
+      const bytes = Buffer.from(value, 'base64');
+      bytes[0] = bytes[0]! ^ 0x01;
+      return bytes.toString('base64');
+    };
+
+    expect(() => plugin.decrypt({ ...encrypted, data: flip(encrypted.data) })).toThrow();
+    expect(() =>
+      plugin.decrypt({
+        ...encrypted,
+        metadata: { ...encrypted.metadata, iv: flip(encrypted.metadata.iv) },
+      }),
+    ).toThrow();
+    expect(() =>
+      plugin.decrypt({
+        ...encrypted,
+        metadata: { ...encrypted.metadata, tag: flip(encrypted.metadata.tag) },
+      }),
+    ).toThrow();
+  });
+
+  test('authenticates the envelope fields', () => {
+    const plugin = new EncryptThenMacPlugin(generateKeys());
+
+    const envelope = JSON.parse(plugin.wrapMessage('transfer', { amount: 100 }));
+    envelope.seq = 7;
+
+    expect(plugin.unwrapMessage(JSON.stringify(envelope))).toBeNull();
+  });
+
+  test('encrypts with the send keys and decrypts with the receive keys', () => {
+    const shared = generateKeys();
+    const clientToServer = generateKeys();
+    const serverToClient = generateKeys();
+
+    const server = new EncryptThenMacPlugin({
+      ...shared,
+      send: serverToClient,
+      receive: clientToServer,
+    });
+    const client = new EncryptThenMacPlugin({
+      ...shared,
+      send: clientToServer,
+      receive: serverToClient,
+    });
+
+    expect(server.unwrapMessage(client.wrapMessage('ping', 1))).toEqual({
+      type: 'ping',
+      payload: 1,
+    });
+    expect(client.unwrapMessage(server.wrapMessage('pong', 2))).toEqual({
+      type: 'pong',
+      payload: 2,
+    });
+    expect(client.unwrapMessage(client.wrapMessage('reflected', 3))).toBeNull();
+  });
+
+  test('round-trips binary payloads and binary frames', () => {
+    const plugin = new EncryptThenMacPlugin(generateKeys());
+    const bytes = Buffer.from([0x00, 0xff, 0x80, 0x7f]);
+
+    const frame = plugin.wrapFrame('image', bytes);
+
+    expect(decodeFrame(frame).algorithm).toBe('aes-256-ctr-hmac-sha256');
+    expect(plugin.unwrapMessage(frame)?.payload).toEqual(bytes);
+  });
+
+  test('can be negotiated as a cipher suite', () => {
+    const provider = new SecureProvider({ cipherSuites: ['aes-256-ctr-hmac-sha256'] });
+    const consumer = new SecureConsumer({
+      cipherSuites: ['aes-256-gcm', 'aes-256-ctr-hmac-sha256'],
+    });
+
+    let init = '';
+    provider.startHandshake({ send: (message: string) => (init = message) });
+    const consumerResponse = consumer.handleMessage(init);
+    const providerConfirmation = provider.handleResponse(consumerResponse.response);
+    const finalConfirmation = consumer.handleMessage({
+      type: 'key-confirmation-request',
+      confirmationMac: providerConfirmation.confirmationMac,
+    });
+    provider.handleResponse(finalConfirmation.response);
+
+    const server = createEncryptionPlugin(provider.getDerivedKeys()!);
+    const client = createEncryptionPlugin(consumer.getDerivedKeys()!);
+
+    expect(server).toBeInstanceOf(EncryptThenMacPlugin);
+    expect(server.unwrapMessage(client.wrapMessage('hello', 'world'))).toEqual({
+      type: 'hello',
+      payload: 'world',
+    });
+  });
+
+  test('refuses counter nonces', () => {
+    expect(() => new EncryptThenMacPlugin(generateKeys(), { nonceMode: 'counter' })).toThrow(
+      'Counter nonces are not supported by aes-256-ctr-hmac-sha256',
+    );
+  });
+
+  test('should return correct algorithm name', () => {
+    expect(new EncryptThenMacPlugin().getAlgorithmName()).toBe('aes-256-ctr-hmac-sha256');
+  });
+});
@@ -20,7 +20,7 @@ console.log('Original message:', plaintext);
 
 const encrypted = plugin.encrypt(plaintext);
 console.log('Encrypted data length:', encrypted.data.length);
-console.log('IV length:', encrypted.metadata.iv.length);
+console.log('IV length:', encrypted.metadata.iv?.length);
 console.log('Tag length:', encrypted.metadata.tag.length);
 
 const decrypted = plugin.decrypt(encrypted);
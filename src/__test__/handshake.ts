@@ -0,0 +1,73 @@
+import { SecureProvider, type SecureProviderOptions } from '../SecureProvider.ts';
+import { SecureConsumer, type SecureConsumerOptions } from '../SecureConsumer.ts';
+import { type SessionKeys } from '../cipher-suites.ts';
+
+/**
+ * Starts the provider's handshake and returns the handshake-init it sent, parsed
+ */
+export function captureInit(provider: SecureProvider): Record<string, unknown> {
+  let sent = '';
+  provider.startHandshake({ send: (message: string) => (sent = message) });
+  return JSON.parse(sent);
+}
+
+/**
+ * Carries a handshake from an init message to the consumer's key confirmation
+ * Returns the first error either side raises, or the consumer's confirmation
+ */
+export function completeHandshake(
+  provider: SecureProvider,
+  consumer: SecureConsumer,
+  init: Record<string, unknown>,
+) {
+  return exchange(provider, consumer, init).result;
+}
+
+/**
+ * Runs a whole handshake between a new provider and consumer
+ * Also returns the consumer's handshake-response, when it sent one
+ */
+export function runHandshake(
+  providerOptions: SecureProviderOptions = {},
+  consumerOptions: SecureConsumerOptions = {},
+) {
+  const provider = new SecureProvider(providerOptions);
+  const consumer = new SecureConsumer(consumerOptions);
+
+  const init = captureInit(provider);
+  const { response, result } = exchange(provider, consumer, init);
+
+  return { provider, consumer, init, response, result };
+}
+
+function exchange(
+  provider: SecureProvider,
+  consumer: SecureConsumer,
+  init: Record<string, unknown>,
+) {
+  const consumerResponse = consumer.handleMessage(JSON.stringify(init));
+  if (consumerResponse.type !== 'handshake-response') {
+    return { result: consumerResponse };
+  }
+
+  const providerConfirmation = provider.handleResponse(consumerResponse.response);
+  if (providerConfirmation.type === 'error') {
+    return { response: consumerResponse.response, result: providerConfirmation };
+  }
+  const result = consumer.handleMessage({
+    type: 'key-confirmation-request',
+    confirmationMac: providerConfirmation.confirmationMac,
+  });
+  if (result.confirmed) {
+    provider.handleResponse(result.response);
+  }
+  return { response: consumerResponse.response, result };
+}
+
+/**
+ * Keys derived at each end of a default handshake
+ */
+export function handshakeKeys(): { providerKeys: SessionKeys; consumerKeys: SessionKeys } {
+  const { provider, consumer } = runHandshake();
+  return { providerKeys: provider.getDerivedKeys()!, consumerKeys: consumer.getDerivedKeys()! };
+}
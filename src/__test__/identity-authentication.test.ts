@@ -0,0 +1,203 @@
+import { test, expect, describe } from 'bun:test';
+import { SecureProvider } from '../SecureProvider.ts';
+import { SecureConsumer } from '../SecureConsumer.ts';
+import { generateIdentityKeyPair } from '../crypto-utils.ts';
+import { captureInit, completeHandshake } from './handshake.ts';
+
+describe('Provider Identity Authentication', () => {
+  test.each(['ed25519', 'p-256'] as const)('completes a signed handshake with %s keys', type => {
+    const identityKey = generateIdentityKeyPair(type);
+    const provider = new SecureProvider({ identityKey });
+    const consumer = new SecureConsumer({ trustedProviderKey: identityKey.publicKey });
+
+    const init = captureInit(provider);
+    expect(init.identityKey).toBeDefined();
+    expect(init.signature).toBeDefined();
+
+    const result = completeHandshake(provider, consumer, init);
+    expect(result.confirmed).toBe(true);
+    expect(provider.isHandshakeConfirmed()).toBe(true);
+  });
+
+  test('accepts PEM encoded trusted keys', () => {
+    const identityKey = generateIdentityKeyPair();
+    const provider = new SecureProvider({
+      identityKey: {
+        privateKey: identityKey.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+        publicKey: identityKey.publicKey.export({ type: 'spki', format: 'pem' }) as string,
+      },
+    });
+    const consumer = new SecureConsumer({
+      trustedProviderKey: identityKey.publicKey.export({ type: 'spki', format: 'pem' }) as string,
+    });
+
+    const result = completeHandshake(provider, consumer, captureInit(provider));
+    expect(result.confirmed).toBe(true);
+  });
+
+  test('rejects unsigned handshake-init when a provider key is trusted', () => {
+    const provider = new SecureProvider();
+    const consumer = new SecureConsumer({
+      trustedProviderKey: generateIdentityKeyPair().publicKey,
+    });
+
+    const result = consumer.handleMessage(JSON.stringify(captureInit(provider)));
+    expect(result.type).toBe('error');
+    expect(result.error).toBe('Missing provider signature');
+  });
+
+  test('rejects handshake-init signed by an untrusted key', () => {
+    const provider = new SecureProvider({ identityKey: generateIdentityKeyPair() });
+    const consumer = new SecureConsumer({
+      trustedProviderKey: generateIdentityKeyPair().publicKey,
+    });
+
+    const result = consumer.handleMessage(JSON.stringify(captureInit(provider)));
+    expect(result.type).toBe('error');
+    expect(result.error).toContain('potential MITM attack');
+  });
+
+  test('rejects a substituted ephemeral key (active MITM)', () => {
+    const identityKey = generateIdentityKeyPair();
+    const provider = new SecureProvider({ identityKey });
+    const attacker = new SecureProvider();
+    const consumer = new SecureConsumer({ trustedProviderKey: identityKey.publicKey });
+
+    const init = captureInit(provider);
+    init.publicKey = captureInit(attacker).publicKey;
+
+    const result = consumer.handleMessage(JSON.stringify(init));
+    expect(result.type).toBe('error');
+    expect(result.error).toContain('potential MITM attack');
+  });
+
+  test('rejects tampered negotiation fields', () => {
+    const identityKey = generateIdentityKeyPair('p-256');
+    const provider = new SecureProvider({ identityKey });
+    const consumer = new SecureConsumer({ trustedProviderKey: identityKey.publicKey });
+
+    const init = captureInit(provider);
+    init.providerNonce = Buffer.alloc(32, 1).toString('base64');
+
+    const result = consumer.handleMessage(JSON.stringify(init));
+    expect(result.type).toBe('error');
+    expect(result.error).toContain('potential MITM attack');
+  });
+
+  test('consumers without a trusted key still accept signed handshakes', () => {
+    const provider = new SecureProvider({ identityKey: generateIdentityKeyPair() });
+    const consumer = new SecureConsumer();
+
+    const result = completeHandshake(provider, consumer, captureInit(provider));
+    expect(result.confirmed).toBe(true);
+  });
+});
+
+describe('Consumer Identity Authentication', () => {
+  test('exposes the verified consumer identity once confirmed', () => {
+    const clientKey = generateIdentityKeyPair();
+    const authorized: string[] = [];
+    const provider = new SecureProvider({
+      authorizeClient: publicKey => {
+        authorized.push(publicKey.export({ type: 'spki', format: 'pem' }).toString());
+        return true;
+      },
+    });
+    const consumer = new SecureConsumer({ identityKey: clientKey });
+
+    const init = captureInit(provider);
+    const consumerResponse = consumer.handleMessage(JSON.stringify(init));
+    expect(consumerResponse.response.identityKey).toBeDefined();
+    expect(consumerResponse.response.signature).toBeDefined();
+
+    const providerConfirmation = provider.handleResponse(consumerResponse.response);
+    expect(providerConfirmation.type).toBe('send-confirmation');
+    expect(provider.getPeerIdentity()).toBeNull();
+
+    const finalConfirmation = consumer.handleMessage({
+      type: 'key-confirmation-request',
+      confirmationMac: providerConfirmation.confirmationMac,
+    });
+    provider.handleResponse(finalConfirmation.response);
+
+    expect(provider.isHandshakeConfirmed()).toBe(true);
+    expect(provider.getPeerIdentity()!.equals(clientKey.publicKey)).toBe(true);
+    expect(authorized).toEqual([
+      clientKey.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    ]);
+  });
+
+  test('completes mutual authentication with both identity keys', () => {
+    const serverKey = generateIdentityKeyPair('p-256');
+    const clientKey = generateIdentityKeyPair('p-256');
+    const provider = new SecureProvider({
+      identityKey: serverKey,
+      authorizeClient: publicKey => publicKey.equals(clientKey.publicKey),
+    });
+    const consumer = new SecureConsumer({
+      identityKey: clientKey,
+      trustedProviderKey: serverKey.publicKey,
+    });
+
+    const result = completeHandshake(provider, consumer, captureInit(provider));
+    expect(result.confirmed).toBe(true);
+    expect(provider.getPeerIdentity()!.equals(clientKey.publicKey)).toBe(true);
+  });
+
+  test('requires a client identity when authorizeClient is configured', () => {
+    const provider = new SecureProvider({ authorizeClient: () => true });
+    const consumer = new SecureConsumer();
+
+    const consumerResponse = consumer.handleMessage(JSON.stringify(captureInit(provider)));
+    const result = provider.handleResponse(consumerResponse.response);
+
+    expect(result.type).toBe('error');
+    expect(result.error).toBe('Client authentication required');
+  });
+
+  test('rejects clients refused by authorizeClient', () => {
+    const provider = new SecureProvider({ authorizeClient: () => false });
+    const consumer = new SecureConsumer({ identityKey: generateIdentityKeyPair() });
+
+    const consumerResponse = consumer.handleMessage(JSON.stringify(captureInit(provider)));
+    const result = provider.handleResponse(consumerResponse.response);
+
+    expect(result.type).toBe('error');
+    expect(result.error).toBe('Client not authorized');
+  });
+
+  test('rejects a response whose ephemeral key was substituted', () => {
+    const provider = new SecureProvider({ authorizeClient: () => true });
+    const consumer = new SecureConsumer({ identityKey: generateIdentityKeyPair() });
+    const attacker = new SecureConsumer();
+
+    const init = captureInit(provider);
+    const consumerResponse = consumer.handleMessage(JSON.stringify(init));
+    const attackerResponse = attacker.handleMessage(JSON.stringify(init));
+    consumerResponse.response.publicKey = attackerResponse.response.publicKey;
+
+    const result = provider.handleResponse(consumerResponse.response);
+    expect(result.type).toBe('error');
+    expect(result.error).toContain('potential MITM attack');
+  });
+
+  test('rejects a signature replayed from another session', () => {
+    const clientKey = generateIdentityKeyPair();
+    const firstProvider = new SecureProvider({ authorizeClient: () => true });
+    const secondProvider = new SecureProvider({ authorizeClient: () => true });
+
+    const firstResponse = new SecureConsumer({ identityKey: clientKey }).handleMessage(
+      JSON.stringify(captureInit(firstProvider)),
+    );
+    const secondInit = captureInit(secondProvider);
+    const secondResponse = new SecureConsumer().handleMessage(JSON.stringify(secondInit));
+
+    // Graft the first session's identity proof onto the second session's response
+    secondResponse.response.identityKey = firstResponse.response.identityKey;
+    secondResponse.response.signature = firstResponse.response.signature;
+
+    const result = secondProvider.handleResponse(secondResponse.response);
+    expect(result.type).toBe('error');
+    expect(result.error).toContain('potential MITM attack');
+  });
+});
@@ -0,0 +1,105 @@
+import { test, expect, describe } from 'bun:test';
+import { SecureProvider } from '../SecureProvider.ts';
+import { SecureConsumer } from '../SecureConsumer.ts';
+import { KeyAgreement, type KeyAgreementGroup } from '../key-agreement.ts';
+import { captureInit, runHandshake } from './handshake.ts';
+
+describe('KeyAgreement', () => {
+  test.each([
+    ['x25519', 32, 32],
+    ['P-256', 65, 32],
+    ['P-384', 97, 48],
+  ] as const)('computes matching secrets for %s', (group, publicKeyLength, secretLength) => {
+    const alice = new KeyAgreement(group);
+    const bob = new KeyAgreement(group);
+
+    expect(alice.getPublicKey().length).toBe(publicKeyLength);
+
+    const aliceSecret = alice.computeSecret(bob.getPublicKey());
+    const bobSecret = bob.computeSecret(alice.getPublicKey());
+
+    expect(aliceSecret.length).toBe(secretLength);
+    expect(aliceSecret.equals(bobSecret)).toBe(true);
+  });
+
+  test('rejects low-order X25519 points', () => {
+    const agreement = new KeyAgreement('x25519');
+    expect(() => agreement.computeSecret(Buffer.alloc(32))).toThrow();
+  });
+
+  test('rejects malformed X25519 public keys', () => {
+    const agreement = new KeyAgreement('x25519');
+    expect(() => agreement.computeSecret(Buffer.alloc(31, 9))).toThrow('Invalid X25519 public key');
+  });
+
+  test('rejects keys from a different group', () => {
+    const agreement = new KeyAgreement('P-384');
+    expect(() => agreement.computeSecret(new KeyAgreement('P-256').getPublicKey())).toThrow();
+  });
+});
+
+describe('Key Agreement Group Negotiation', () => {
+  test('offers a key share for every group', () => {
+    const { init } = runHandshake();
+    const keyShares = init.keyShares as Record<string, string>;
+
+    expect(init.supportedGroups).toEqual(['x25519', 'P-256', 'P-384']);
+    expect(Object.keys(keyShares)).toEqual(['x25519', 'P-256', 'P-384']);
+    expect(init.publicKey).toBe(keyShares.x25519);
+  });
+
+  test.each(['x25519', 'P-256', 'P-384'] as KeyAgreementGroup[])(
+    'completes the handshake over %s',
+    group => {
+      const { provider, consumer, response } = runHandshake({}, { groups: [group] });
+
+      expect(response.selectedGroup).toBe(group);
+      expect(provider.isHandshakeConfirmed()).toBe(true);
+      expect(
+        provider.getDerivedKeys()!.encryptionKey.equals(consumer.getDerivedKeys()!.encryptionKey),
+      ).toBe(true);
+    },
+  );
+
+  test("follows the provider's preference order", () => {
+    const { response } = runHandshake(
+      { groups: ['P-384', 'x25519'] },
+      { groups: ['x25519', 'P-384'] },
+    );
+    expect(response.selectedGroup).toBe('P-384');
+  });
+
+  test('fails when no group is shared', () => {
+    const { result } = runHandshake({ groups: ['P-384'] }, { groups: ['x25519'] });
+    expect(result.error).toBe('Unsupported key agreement groups');
+  });
+
+  test('fails when the selected key share is missing', () => {
+    const provider = new SecureProvider();
+    const consumer = new SecureConsumer({ groups: ['P-256'] });
+
+    const tampered = captureInit(provider);
+    delete (tampered.keyShares as Record<string, string>)['P-256'];
+
+    const result = consumer.handleMessage(tampered);
+    expect(result.error).toBe('Missing key share for selected group');
+  });
+
+  test('provider rejects a group it did not offer', () => {
+    const provider = new SecureProvider({ groups: ['x25519'] });
+    const consumer = new SecureConsumer();
+
+    const consumerResponse = consumer.handleMessage(JSON.stringify(captureInit(provider)));
+    consumerResponse.response.selectedGroup = 'P-384';
+
+    const result = provider.handleResponse(consumerResponse.response);
+    expect(result.type).toBe('error');
+    expect(result.error).toBe('Unsupported key agreement group selected');
+  });
+
+  test('rejects unknown groups in configuration', () => {
+    expect(() => new SecureProvider({ groups: ['secp256k1' as any] })).toThrow(
+      'Unknown key agreement group: secp256k1',
+    );
+  });
+});
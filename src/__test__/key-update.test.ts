@@ -0,0 +1,191 @@
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin';
+import { generateKeys } from '../crypto-utils';
+import { DecryptionError, KeyLimitExceededError, ReplayError } from '../errors';
+import type {
+  DirectionalKeys,
+  EncryptionPluginOptions,
+  KeyLimitEvent,
+} from '../BaseEncryptionPlugin';
+import { expect, test, describe } from 'bun:test';
+
+function createPair(options?: EncryptionPluginOptions) {
+  const shared = generateKeys();
+  const clientToServer = generateKeys();
+  const serverToClient = generateKeys();
+
+  const server = new MessageEncryptionPlugin(
+    { ...shared, send: serverToClient, receive: clientToServer },
+    options,
+  );
+  const client = new MessageEncryptionPlugin(
+    { ...shared, send: clientToServer, receive: serverToClient },
+    options,
+  );
+
+  return { server, client, clientToServer };
+}
+
+describe('Key Update', () => {
+  test('either side can rotate its send keys mid-session', () => {
+    const { server, client } = createPair();
+
+    const update = client.createKeyUpdate();
+    expect(JSON.parse(update).type).toBe('key-update');
+    expect(server.processIncomingMessage(update)).toEqual({ type: 'key-update', generation: 1 });
+
+    const toServer = client.wrapMessage('ping', { n: 1 });
+    expect(server.unwrapMessage(toServer)).toEqual({ type: 'ping', payload: { n: 1 } });
+
+    client.processIncomingMessage(server.createKeyUpdate());
+    const toClient = server.wrapMessage('pong', { n: 2 });
+    expect(client.unwrapMessage(toClient)).toEqual({ type: 'pong', payload: { n: 2 } });
+
+    expect(client.getKeyGeneration()).toEqual({ send: 1, receive: 1 });
+    expect(server.getKeyGeneration()).toEqual({ send: 1, receive: 1 });
+  });
+
+  test("zeroizes the replaced send keys, but never the caller's buffers", () => {
+    const { client, clientToServer } = createPair();
+    const original = Buffer.from(clientToServer.encryptionKey);
+    const replaced = (client as unknown as { getSendKeys(): DirectionalKeys }).getSendKeys();
+
+    client.createKeyUpdate();
+
+    expect(replaced.encryptionKey.every(byte => byte === 0)).toBe(true);
+    expect(replaced.authenticationKey.every(byte => byte === 0)).toBe(true);
+    expect(clientToServer.encryptionKey).toEqual(original);
+  });
+
+  test('new keys do not decrypt messages sent before the update', () => {
+    const { server, client } = createPair({ keyUpdateGraceMs: 0 });
+
+    const inFlight = client.wrapMessage('late', { n: 1 });
+    server.processIncomingMessage(client.createKeyUpdate());
+
+    expect(server.unwrapMessage(inFlight)).toBeNull();
+  });
+
+  test('accepts in-flight messages under the previous key during the grace window', () => {
+    const { server, client } = createPair({ keyUpdateGraceMs: 60_000 });
+
+    const inFlight = client.wrapMessage('late', { n: 1 });
+    server.processIncomingMessage(client.createKeyUpdate());
+
+    expect(server.unwrapMessage(inFlight)).toEqual({ type: 'late', payload: { n: 1 } });
+  });
+
+  test('rejects key updates that skip or repeat a generation', () => {
+    const { server, client } = createPair();
+
+    const first = client.createKeyUpdate();
+    const second = client.createKeyUpdate();
+
+    expect(() => server.processIncomingMessage(second)).toThrow(DecryptionError);
+    server.processIncomingMessage(first);
+    expect(() => server.processIncomingMessage(first)).toThrow(ReplayError);
+    expect(server.processIncomingMessage(second)).toEqual({ type: 'key-update', generation: 2 });
+  });
+
+  test('rejects forged key updates', () => {
+    const { server } = createPair();
+    const attacker = new MessageEncryptionPlugin(generateKeys());
+
+    const forged = attacker.createKeyUpdate();
+
+    expect(() => server.processIncomingMessage(forged)).toThrow(DecryptionError);
+    expect(server.getKeyGeneration().receive).toBe(0);
+  });
+
+  test('keeps shared keys intact until both directions have moved on', () => {
+    const keys = generateKeys();
+    const alice = new MessageEncryptionPlugin(keys);
+    const bob = new MessageEncryptionPlugin(keys, { keyUpdateGraceMs: 0 });
+
+    bob.processIncomingMessage(alice.createKeyUpdate());
+    expect(alice.unwrapMessage(bob.wrapMessage('still', { ok: true }))).toEqual({
+      type: 'still',
+      payload: { ok: true },
+    });
+  });
+
+  test('cannot update keys before keys are set', () => {
+    expect(() => new MessageEncryptionPlugin().createKeyUpdate()).toThrow(
+      'Cannot update keys while encryption is not enabled',
+    );
+  });
+});
+
+describe('Rekey Policy', () => {
+  test('sends a key update once the message limit is reached', () => {
+    const { server, client } = createPair({ rekeyPolicy: { maxMessages: 2 } });
+    const frames: string[] = [];
+    const limits: KeyLimitEvent[] = [];
+    client.on('key-update', (frame: string) => frames.push(frame));
+    client.on('key-limit', (event: KeyLimitEvent) => limits.push(event));
+
+    for (let n = 0; n < 5; n++) {
+      const message = client.wrapMessage('tick', { n });
+      for (const frame of frames.splice(0)) {
+        server.processIncomingMessage(frame);
+      }
+      expect(server.unwrapMessage(message)).toEqual({ type: 'tick', payload: { n } });
+    }
+
+    expect(client.getKeyGeneration().send).toBe(2);
+    expect(limits).toHaveLength(2);
+    expect(limits[0]).toMatchObject({ limit: 'messages', action: 'update', messages: 2 });
+  });
+
+  test('counts plaintext bytes against the byte limit', () => {
+    const { client } = createPair({ rekeyPolicy: { maxBytes: 100 } });
+    const limits: KeyLimitEvent[] = [];
+    client.on('key-update', () => {});
+    client.on('key-limit', (event: KeyLimitEvent) => limits.push(event));
+
+    client.processOutgoingMessage('x'.repeat(60));
+    client.processOutgoingMessage('x'.repeat(60));
+
+    expect(limits).toEqual([expect.objectContaining({ limit: 'bytes', bytes: 60, generation: 0 })]);
+    expect(client.getKeyGeneration().send).toBe(1);
+  });
+
+  test('rotates keys that have exceeded their maximum age', async () => {
+    const { client } = createPair({ rekeyPolicy: { maxKeyAgeMs: 5 } });
+    client.on('key-update', () => {});
+
+    client.processOutgoingMessage('early');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    client.processOutgoingMessage('late');
+
+    expect(client.getKeyGeneration().send).toBe(1);
+  });
+
+  test('refuses to encrypt at the limit when automatic updates are disabled', () => {
+    const { client } = createPair({ rekeyPolicy: { maxMessages: 1, autoUpdate: false } });
+    const limits: KeyLimitEvent[] = [];
+    client.on('key-limit', (event: KeyLimitEvent) => limits.push(event));
+
+    client.processOutgoingMessage('one');
+
+    expect(() => client.processOutgoingMessage('two')).toThrow(KeyLimitExceededError);
+    expect(limits[0]).toMatchObject({ limit: 'messages', action: 'refuse' });
+
+    client.createKeyUpdate();
+    expect(() => client.processOutgoingMessage('two')).not.toThrow();
+  });
+
+  test('refuses rather than dropping an update nobody would deliver', () => {
+    const { client } = createPair({ rekeyPolicy: { maxMessages: 1 } });
+
+    client.processOutgoingMessage('one');
+
+    try {
+      client.processOutgoingMessage('two');
+      throw new Error('expected refusal');
+    } catch (error) {
+      expect(error).toBeInstanceOf(KeyLimitExceededError);
+      expect((error as KeyLimitExceededError).code).toBe('KEY_LIMIT_EXCEEDED');
+    }
+    expect(client.getKeyGeneration().send).toBe(0);
+  });
+});
@@ -0,0 +1,163 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SecureProvider } from '../SecureProvider.ts';
+import { SecureConsumer } from '../SecureConsumer.ts';
+import {
+  FileKnownPeersStore,
+  MemoryKnownPeersStore,
+  type KnownPeersStore,
+} from '../KnownPeersStore.ts';
+import { PeerKeyChangedError } from '../errors.ts';
+import { generateIdentityKeyPair, identityFingerprint } from '../crypto-utils.ts';
+
+function connect(provider: SecureProvider, store: KnownPeersStore, peerLabel = 'api.example.com') {
+  const consumer = new SecureConsumer({ knownPeers: { store, peerLabel } });
+
+  let init = '';
+  provider.startHandshake({ send: (message: string) => (init = message) });
+
+  const consumerResponse = consumer.handleMessage(init);
+  if (consumerResponse.type === 'error') {
+    return consumerResponse;
+  }
+
+  const providerConfirmation = provider.handleResponse(consumerResponse.response);
+  return consumer.handleMessage({
+    type: 'key-confirmation-request',
+    confirmationMac: providerConfirmation.confirmationMac,
+  });
+}
+
+describe('Trust-On-First-Use Known Peers', () => {
+  test('records the provider fingerprint on first contact', () => {
+    const identityKey = generateIdentityKeyPair();
+    const store = new MemoryKnownPeersStore();
+
+    const result = connect(new SecureProvider({ identityKey }), store);
+
+    expect(result.confirmed).toBe(true);
+    expect(store.get('api.example.com')).toBe(identityFingerprint(identityKey.publicKey));
+  });
+
+  test('accepts the same identity on later connections', () => {
+    const identityKey = generateIdentityKeyPair();
+    const store = new MemoryKnownPeersStore();
+
+    connect(new SecureProvider({ identityKey }), store);
+    const result = connect(new SecureProvider({ identityKey }), store);
+
+    expect(result.confirmed).toBe(true);
+  });
+
+  test('fails loudly with a distinct error when the key changes', () => {
+    const store = new MemoryKnownPeersStore();
+    connect(new SecureProvider({ identityKey: generateIdentityKeyPair() }), store);
+
+    const result = connect(new SecureProvider({ identityKey: generateIdentityKeyPair() }), store);
+
+    expect(result.type).toBe('error');
+    expect(result.code).toBe('PEER_KEY_CHANGED');
+    expect(result.error).toContain('api.example.com');
+    expect(result.error).toContain('possible impersonation');
+  });
+
+  test('keeps separate records per peer label', () => {
+    const store = new MemoryKnownPeersStore();
+    connect(new SecureProvider({ identityKey: generateIdentityKeyPair() }), store, 'a.example.com');
+
+    const result = connect(
+      new SecureProvider({ identityKey: generateIdentityKeyPair() }),
+      store,
+      'b.example.com',
+    );
+
+    expect(result.confirmed).toBe(true);
+  });
+
+  test('rejects providers without an identity key', () => {
+    const result = connect(new SecureProvider(), new MemoryKnownPeersStore());
+
+    expect(result.type).toBe('error');
+    expect(result.error).toBe('Provider did not present an identity key');
+  });
+
+  test('does not record a key whose signature fails to verify', () => {
+    const store = new MemoryKnownPeersStore();
+    const consumer = new SecureConsumer({ knownPeers: { store, peerLabel: 'api.example.com' } });
+
+    let init = '';
+    new SecureProvider({ identityKey: generateIdentityKeyPair() }).startHandshake({
+      send: (message: string) => (init = message),
+    });
+    const tampered = JSON.parse(init);
+    tampered.identityKey = Buffer.from(
+      generateIdentityKeyPair().publicKey.export({ type: 'spki', format: 'der' }),
+    ).toString('base64');
+
+    const result = consumer.handleMessage(tampered);
+    expect(result.error).toContain('potential MITM attack');
+    expect(store.get('api.example.com')).toBeUndefined();
+  });
+});
+
+describe('PeerKeyChangedError', () => {
+  test('carries both fingerprints', () => {
+    const error = new PeerKeyChangedError('host', 'SHA256:old', 'SHA256:new');
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('PeerKeyChangedError');
+    expect(error.code).toBe('PEER_KEY_CHANGED');
+    expect(error.expectedFingerprint).toBe('SHA256:old');
+    expect(error.receivedFingerprint).toBe('SHA256:new');
+  });
+});
+
+describe('FileKnownPeersStore', () => {
+  let directory: string;
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('persists fingerprints across store instances', () => {
+    directory = mkdtempSync(join(tmpdir(), 'known-peers-'));
+    const filePath = join(directory, 'known_peers.json');
+
+    new FileKnownPeersStore(filePath).set('api.example.com', 'SHA256:abc');
+
+    expect(new FileKnownPeersStore(filePath).get('api.example.com')).toBe('SHA256:abc');
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toEqual({ 'api.example.com': 'SHA256:abc' });
+  });
+
+  test('treats a missing file as empty', () => {
+    directory = mkdtempSync(join(tmpdir(), 'known-peers-'));
+
+    expect(new FileKnownPeersStore(join(directory, 'absent.json')).get('anything')).toBeUndefined();
+  });
+
+  test('ignores inherited object properties', () => {
+    directory = mkdtempSync(join(tmpdir(), 'known-peers-'));
+    const filePath = join(directory, 'known_peers.json');
+    writeFileSync(filePath, '{}');
+
+    expect(new FileKnownPeersStore(filePath).get('constructor')).toBeUndefined();
+  });
+
+  test('detects a changed key across processes', () => {
+    directory = mkdtempSync(join(tmpdir(), 'known-peers-'));
+    const filePath = join(directory, 'known_peers.json');
+
+    connect(
+      new SecureProvider({ identityKey: generateIdentityKeyPair() }),
+      new FileKnownPeersStore(filePath),
+    );
+    const result = connect(
+      new SecureProvider({ identityKey: generateIdentityKeyPair() }),
+      new FileKnownPeersStore(filePath),
+    );
+
+    expect(result.code).toBe('PEER_KEY_CHANGED');
+  });
+});
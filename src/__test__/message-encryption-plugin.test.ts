@@ -14,6 +14,39 @@ describe('MessageEncryptionPlugin', () => {
     expect(decrypted).toBe(message);
   });
 
+  test('encrypts with the send key and decrypts with the receive key', () => {
+    const shared = generateKeys();
+    const clientToServer = generateKeys();
+    const serverToClient = generateKeys();
+
+    const server = new MessageEncryptionPlugin({
+      ...shared,
+      send: serverToClient,
+      receive: clientToServer,
+    });
+    const client = new MessageEncryptionPlugin({
+      ...shared,
+      send: clientToServer,
+      receive: serverToClient,
+    });
+
+    expect(client.decrypt(server.encrypt('to client'))).toBe('to client');
+    expect(server.decrypt(client.encrypt('to server'))).toBe('to server');
+  });
+
+  test('rejects messages reflected back to their sender', () => {
+    const server = new MessageEncryptionPlugin({
+      ...generateKeys(),
+      send: generateKeys(),
+      receive: generateKeys(),
+    });
+
+    const reflected = server.wrapMessage('transfer', { amount: 100 });
+
+    expect(() => server.decrypt(JSON.parse(reflected).encrypted)).toThrow();
+    expect(server.unwrapMessage(reflected)).toBeNull();
+  });
+
   test('getAlgorithmName should return correct algorithm', () => {
     const plugin = new MessageEncryptionPlugin();
     expect(plugin.getAlgorithmName()).toBe('aes-256-gcm');
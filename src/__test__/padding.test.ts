@@ -0,0 +1,107 @@
+import { test, expect, describe } from 'bun:test';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { EncryptThenMacPlugin } from '../EncryptThenMacPlugin.ts';
+import { padPlaintext, unpadPlaintext } from '../padding.ts';
+import { decodeFrame } from '../binary-frame.ts';
+import { generateKeys } from '../crypto-utils.ts';
+import type { PaddingPolicy } from '../padding.ts';
+
+function ciphertextLength(plugin: MessageEncryptionPlugin, message: unknown): number {
+  return Buffer.from(JSON.parse(plugin.processOutgoingMessage(message)).encrypted.data, 'base64')
+    .length;
+}
+
+describe('Padding', () => {
+  test('pads to a block multiple', () => {
+    const padded = padPlaintext(Buffer.from('ack'), { type: 'block', blockSize: 32 });
+
+    expect(padded).toHaveLength(32);
+    expect(padPlaintext(Buffer.alloc(32), { type: 'block', blockSize: 32 })).toHaveLength(64);
+    expect(unpadPlaintext(padded).toString()).toBe('ack');
+  });
+
+  test('pads to the next power of two', () => {
+    const policy: PaddingPolicy = { type: 'power-of-two' };
+
+    expect(padPlaintext(Buffer.alloc(100), policy)).toHaveLength(128);
+    expect(padPlaintext(Buffer.alloc(127), policy)).toHaveLength(128);
+    expect(padPlaintext(Buffer.alloc(128), policy)).toHaveLength(256);
+  });
+
+  test('adds random padding up to the limit', () => {
+    const policy: PaddingPolicy = { type: 'random', maxBytes: 16 };
+    const lengths = new Set(
+      Array.from({ length: 200 }, () => padPlaintext(Buffer.alloc(10), policy).length),
+    );
+
+    expect(Math.min(...lengths)).toBeGreaterThanOrEqual(11);
+    expect(Math.max(...lengths)).toBeLessThanOrEqual(27);
+    expect(lengths.size).toBeGreaterThan(1);
+  });
+
+  test('keeps trailing zero bytes of the plaintext', () => {
+    const plaintext = Buffer.from([1, 2, 0, 0]);
+
+    expect(unpadPlaintext(padPlaintext(plaintext, { type: 'block', blockSize: 16 }))).toEqual(
+      plaintext,
+    );
+  });
+
+  test('rejects invalid padding', () => {
+    expect(() => unpadPlaintext(Buffer.alloc(16))).toThrow('Invalid padding');
+    expect(() => unpadPlaintext(Buffer.from([1, 2, 3]))).toThrow('Invalid padding');
+  });
+
+  test('hides the length of messages of different sizes', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys(), {
+      padding: { type: 'block', blockSize: 256 },
+    });
+
+    const ack = ciphertextLength(plugin, { type: 'ack' });
+    const order = ciphertextLength(plugin, { type: 'order-placed', items: ['lamp', 'desk'] });
+
+    expect(ack).toBe(256);
+    expect(order).toBe(ack);
+  });
+
+  test('strips padding on receive, for JSON, binary payloads and frames', () => {
+    const keys = generateKeys();
+    const padding: PaddingPolicy = { type: 'power-of-two' };
+    const sender = new EncryptThenMacPlugin(keys, { padding });
+    const receiver = new EncryptThenMacPlugin(keys);
+    const bytes = Buffer.from([0, 1, 2, 0]);
+
+    const frame = sender.wrapFrame('image', bytes);
+
+    expect(receiver.unwrapMessage(sender.wrapMessage('chat', 'hi'))).toEqual({
+      type: 'chat',
+      payload: 'hi',
+    });
+    expect(decodeFrame(frame).transforms).toEqual([{ name: 'pad' }]);
+    expect(receiver.unwrapMessage(frame)?.payload).toEqual(bytes);
+  });
+
+  test('authenticates the transform header', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, {
+      padding: { type: 'block', blockSize: 64 },
+    });
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    const envelope = JSON.parse(sender.wrapMessage('chat', 'hi'));
+    delete envelope.transforms;
+
+    expect(receiver.unwrapMessage(JSON.stringify(envelope))).toBeNull();
+  });
+
+  test('validates the policy', () => {
+    expect(
+      () =>
+        new MessageEncryptionPlugin(generateKeys(), { padding: { type: 'block', blockSize: 0 } }),
+    ).toThrow('Padding block size must be a positive integer');
+    expect(
+      () =>
+        new MessageEncryptionPlugin(generateKeys(), { padding: { type: 'random', maxBytes: -1 } }),
+    ).toThrow('Random padding maxBytes must be a non-negative integer');
+  });
+});
@@ -0,0 +1,172 @@
+import { test, expect, describe } from 'bun:test';
+import { PluginRegistry } from '../PluginRegistry.ts';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { EncryptThenMacPlugin } from '../EncryptThenMacPlugin.ts';
+import { DecryptionError, UnsupportedAlgorithmError } from '../errors.ts';
+import { generateKeys } from '../crypto-utils.ts';
+import { type SessionKeys } from '../cipher-suites.ts';
+
+function createPeers() {
+  const aes = generateKeys();
+  const etm = generateKeys();
+  const copy = (keys: typeof aes) => ({
+    encryptionKey: Buffer.from(keys.encryptionKey),
+    authenticationKey: Buffer.from(keys.authenticationKey),
+  });
+
+  return {
+    sender: new PluginRegistry([
+      new MessageEncryptionPlugin(copy(aes)),
+      new EncryptThenMacPlugin(copy(etm)),
+    ]),
+    receiver: new PluginRegistry([
+      new MessageEncryptionPlugin(copy(aes)),
+      new EncryptThenMacPlugin(copy(etm)),
+    ]),
+  };
+}
+
+describe('Plugin Registry', () => {
+  test('keys plugins by algorithm name and sends with the first by default', () => {
+    const { sender } = createPeers();
+
+    expect(sender.getAlgorithms()).toEqual(['aes-256-gcm', 'aes-256-ctr-hmac-sha256']);
+    expect(sender.getSendAlgorithm()).toBe('aes-256-gcm');
+    expect(JSON.parse(sender.wrapMessage('ping', 1)).algorithm).toBe('aes-256-gcm');
+  });
+
+  test('dispatches incoming messages by envelope algorithm', () => {
+    const { sender, receiver } = createPeers();
+
+    const before = sender.wrapMessage('chat', 'before');
+    sender.setSendAlgorithm('aes-256-ctr-hmac-sha256');
+    const after = sender.wrapMessage('chat', 'after');
+    const frame = sender.wrapFrame('chat', 'framed');
+
+    expect(receiver.unwrapMessage(before)).toEqual({ type: 'chat', payload: 'before' });
+    expect(receiver.unwrapMessage(after)).toEqual({ type: 'chat', payload: 'after' });
+    expect(receiver.unwrapMessage(frame)).toEqual({ type: 'chat', payload: 'framed' });
+  });
+
+  test('hands plugins the envelope it parsed rather than the raw message', () => {
+    const { sender, receiver } = createPeers();
+    for (const algorithm of receiver.getAlgorithms()) {
+      receiver.get(algorithm)!.processIncomingMessage = () => {
+        throw new Error('parsed twice');
+      };
+    }
+
+    const json = sender.wrapMessage('chat', 'json');
+    const frame = sender.wrapFrame('chat', 'framed');
+
+    expect(receiver.processIncomingMessage(json)).toEqual({ type: 'chat', payload: 'json' });
+    expect(receiver.processIncomingMessage(frame)).toEqual({ type: 'chat', payload: 'framed' });
+  });
+
+  test('delivers key updates to the plugin they belong to', () => {
+    const { sender, receiver } = createPeers();
+
+    const update = sender.get('aes-256-ctr-hmac-sha256')!.createKeyUpdate();
+
+    expect(receiver.processIncomingMessage(update)).toEqual({ type: 'key-update', generation: 1 });
+    expect(receiver.get('aes-256-ctr-hmac-sha256')!.getKeyGeneration().receive).toBe(1);
+    expect(receiver.get('aes-256-gcm')!.getKeyGeneration().receive).toBe(0);
+  });
+
+  test('rejects algorithms outside the allowlist', () => {
+    const { sender, receiver } = createPeers();
+    receiver.setAllowedAlgorithms(['aes-256-ctr-hmac-sha256']);
+
+    const message = sender.wrapMessage('chat', 'hello');
+
+    expect(() => receiver.processIncomingMessage(message)).toThrow(UnsupportedAlgorithmError);
+    expect(() => receiver.processIncomingMessage(message)).toThrow(
+      'Algorithm aes-256-gcm is not in the allowlist',
+    );
+  });
+
+  test('rejects algorithms with no registered plugin', () => {
+    const keys = generateKeys();
+    const sender = new EncryptThenMacPlugin(keys);
+    const receiver = new PluginRegistry([new MessageEncryptionPlugin(generateKeys())], {
+      allowedAlgorithms: ['aes-256-gcm', 'aes-256-ctr-hmac-sha256'],
+    });
+
+    let error: unknown;
+    try {
+      receiver.processIncomingMessage(sender.wrapMessage('chat', 'hello'));
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(UnsupportedAlgorithmError);
+    expect((error as UnsupportedAlgorithmError).reason).toBe('not-registered');
+  });
+
+  test('leaves non-envelope messages to the send plugin', () => {
+    const { receiver } = createPeers();
+    const lenient = new PluginRegistry([
+      new MessageEncryptionPlugin(generateKeys(), { strict: false }),
+    ]);
+
+    expect(() => receiver.processIncomingMessage('{"type":"hello"}')).toThrow(DecryptionError);
+    expect(lenient.processIncomingMessage('{"type":"hello"}')).toEqual({ type: 'hello' });
+  });
+
+  test('refuses duplicate registrations and unregistering the send plugin', () => {
+    const { sender } = createPeers();
+
+    expect(() => sender.register(new MessageEncryptionPlugin(generateKeys()))).toThrow(
+      'A plugin for aes-256-gcm is already registered',
+    );
+    expect(() => sender.unregister('aes-256-gcm')).toThrow(
+      'Cannot unregister aes-256-gcm while it is used to send',
+    );
+    expect(sender.unregister('aes-256-ctr-hmac-sha256')).toBeInstanceOf(EncryptThenMacPlugin);
+    expect(() => sender.setSendAlgorithm('aes-256-ctr-hmac-sha256')).toThrow(
+      'No plugin registered for algorithm aes-256-ctr-hmac-sha256',
+    );
+  });
+
+  test('keeps plugins built from one set of session keys independent', () => {
+    const [shared, clientToServer, serverToClient] = [
+      generateKeys(),
+      generateKeys(),
+      generateKeys(),
+    ];
+    const keys: SessionKeys = {
+      ...shared,
+      send: clientToServer,
+      receive: serverToClient,
+      cipher: 'aes-256-gcm',
+    };
+    const peerKeys: SessionKeys = {
+      ...shared,
+      send: serverToClient,
+      receive: clientToServer,
+      cipher: 'aes-256-gcm',
+    };
+    const sendKey = Buffer.from(clientToServer.encryptionKey);
+    const aes = new MessageEncryptionPlugin(keys);
+    const sender = new PluginRegistry([aes, new EncryptThenMacPlugin(keys)]);
+    const receiver = new PluginRegistry([
+      new MessageEncryptionPlugin(peerKeys),
+      new EncryptThenMacPlugin(peerKeys),
+    ]);
+
+    receiver.processIncomingMessage(aes.createKeyUpdate());
+    sender.setSendAlgorithm('aes-256-ctr-hmac-sha256');
+
+    expect(clientToServer.encryptionKey).toEqual(sendKey);
+    expect(receiver.unwrapMessage(sender.wrapMessage('secret', 42))).toEqual({
+      type: 'secret',
+      payload: 42,
+    });
+    expect(
+      new EncryptThenMacPlugin({
+        encryptionKey: Buffer.alloc(32),
+        authenticationKey: Buffer.alloc(32),
+      }).unwrapMessage(sender.wrapMessage('secret', 43)),
+    ).toBeNull();
+  });
+});
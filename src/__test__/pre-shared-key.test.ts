@@ -0,0 +1,69 @@
+import { test, expect, describe } from 'bun:test';
+import { SecureProvider } from '../SecureProvider.ts';
+import { randomBytes } from 'crypto';
+import { runHandshake } from './handshake.ts';
+
+describe('Pre-Shared Key Handshake', () => {
+  const psk = { identity: 'device-42', key: randomBytes(32) };
+
+  test('completes the handshake when both parties share the PSK', () => {
+    const { provider, consumer, result, init } = runHandshake({ psk }, { psk });
+
+    expect(init.pskIdentity).toBe('device-42');
+    expect(result.confirmed).toBe(true);
+    expect(provider.isHandshakeConfirmed()).toBe(true);
+    expect(
+      provider.getDerivedKeys()!.encryptionKey.equals(consumer.getDerivedKeys()!.encryptionKey),
+    ).toBe(true);
+  });
+
+  test('fails key confirmation with the wrong PSK', () => {
+    const { result } = runHandshake(
+      { psk },
+      { psk: { identity: 'device-42', key: randomBytes(32) } },
+    );
+
+    expect(result.type).toBe('error');
+    expect(result.error).toContain('potential MITM attack');
+  });
+
+  test('fails key confirmation when the consumer has no PSK', () => {
+    const { result } = runHandshake({ psk }, {});
+
+    expect(result.type).toBe('error');
+    expect(result.error).toContain('potential MITM attack');
+  });
+
+  test('fails key confirmation when the provider has no PSK', () => {
+    const { result } = runHandshake({}, { psk });
+
+    expect(result.type).toBe('error');
+    expect(result.error).toContain('potential MITM attack');
+  });
+
+  test('rejects a mismatched PSK identity', () => {
+    const { result } = runHandshake({ psk }, { psk: { identity: 'device-7', key: psk.key } });
+
+    expect(result.type).toBe('error');
+    expect(result.error).toBe('PSK identity mismatch');
+  });
+
+  test('rejects keys that are too short', () => {
+    expect(() => new SecureProvider({ psk: { identity: 'x', key: randomBytes(8) } })).toThrow(
+      'Pre-shared key must be at least 16 bytes',
+    );
+  });
+
+  test('does not zeroize the caller-owned PSK on destroy', () => {
+    const key = randomBytes(32);
+    const copy = Buffer.from(key);
+    const { provider, consumer } = runHandshake(
+      { psk: { identity: 'device-42', key } },
+      { psk: { identity: 'device-42', key } },
+    );
+
+    provider.destroy();
+    consumer.destroy();
+    expect(key.equals(copy)).toBe(true);
+  });
+});
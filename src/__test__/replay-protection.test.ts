@@ -0,0 +1,124 @@
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin';
+import { ReplayWindow } from '../ReplayWindow';
+import { ReplayError } from '../errors';
+import { generateKeys } from '../crypto-utils';
+import { expect, test, describe } from 'bun:test';
+
+describe('ReplayWindow', () => {
+  test('accepts increasing and out-of-order sequence numbers within the window', () => {
+    const window = new ReplayWindow(8);
+
+    for (const seq of [0, 2, 1, 5, 3, 4]) {
+      expect(() => window.accept(seq)).not.toThrow();
+    }
+  });
+
+  test('rejects duplicates', () => {
+    const window = new ReplayWindow(8);
+    window.accept(3);
+    window.accept(7);
+
+    expect(() => window.check(3)).toThrow(ReplayError);
+    expect(() => window.check(7)).toThrow('already received');
+  });
+
+  test('rejects sequence numbers that have fallen behind the window', () => {
+    const window = new ReplayWindow(8);
+    window.accept(20);
+
+    expect(() => window.check(12)).toThrow('outside the replay window');
+    expect(() => window.check(13)).not.toThrow();
+  });
+
+  test('starts afresh when the window slides further than its size', () => {
+    const window = new ReplayWindow(4);
+    window.accept(1);
+    window.accept(100);
+
+    expect(() => window.check(1)).toThrow('outside the replay window');
+    expect(() => window.check(99)).not.toThrow();
+    expect(() => window.check(100)).toThrow(ReplayError);
+  });
+
+  test('rejects malformed sequence numbers', () => {
+    const window = new ReplayWindow();
+
+    expect(() => window.check(-1)).toThrow('Invalid sequence number');
+    expect(() => window.check(1.5)).toThrow('Invalid sequence number');
+    expect(() => new ReplayWindow(0)).toThrow('Replay window size must be a positive integer');
+  });
+});
+
+describe('Replay Protection', () => {
+  test('each outgoing message carries an increasing sequence number', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+
+    const first = JSON.parse(plugin.wrapMessage('a', 1));
+    const second = JSON.parse(plugin.wrapMessage('b', 2));
+
+    expect(first.seq).toBe(0);
+    expect(second.seq).toBe(1);
+  });
+
+  test('rejects a replayed message with a ReplayError', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys);
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    const transfer = sender.wrapMessage('transfer', { amount: 100 });
+    expect(receiver.processIncomingMessage(transfer)).toEqual({
+      type: 'transfer',
+      payload: { amount: 100 },
+    });
+
+    try {
+      receiver.processIncomingMessage(transfer);
+      throw new Error('expected replay to be rejected');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ReplayError);
+      expect((error as ReplayError).code).toBe('REPLAY_DETECTED');
+      expect((error as ReplayError).reason).toBe('duplicate');
+    }
+  });
+
+  test('honours the configured window size', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys);
+    const receiver = new MessageEncryptionPlugin(keys, { replayWindowSize: 2 });
+
+    const delayed = sender.wrapMessage('late', null);
+    sender.wrapMessage('skipped', null);
+    receiver.processIncomingMessage(sender.wrapMessage('latest', null));
+
+    expect(() => receiver.processIncomingMessage(delayed)).toThrow(ReplayError);
+  });
+
+  test('authenticates the sequence number', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys);
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    const tampered = JSON.parse(sender.wrapMessage('transfer', { amount: 100 }));
+    tampered.seq = 7;
+    const raw = JSON.stringify(tampered);
+
+    expect(receiver.unwrapMessage(raw)).toBeNull();
+    // The forged number was not recorded, so the genuine one still lands
+    tampered.seq = 0;
+    expect(receiver.unwrapMessage(JSON.stringify(tampered))).toEqual({
+      type: 'transfer',
+      payload: { amount: 100 },
+    });
+  });
+
+  test('rejects encrypted messages without a sequence number', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys);
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    const stripped = JSON.parse(sender.wrapMessage('transfer', { amount: 100 }));
+    delete stripped.seq;
+
+    expect(receiver.unwrapMessage(JSON.stringify(stripped))).toBeNull();
+  });
+});
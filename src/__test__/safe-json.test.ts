@@ -0,0 +1,126 @@
+import { test, expect, describe } from 'bun:test';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { PluginRegistry } from '../PluginRegistry.ts';
+import { SecureConsumer } from '../SecureConsumer.ts';
+import { SecureProvider } from '../SecureProvider.ts';
+import { MessageParseError, type ParseFailure } from '../errors.ts';
+import { DEFAULT_PARSE_LIMITS, parseJson, resolveParseLimits } from '../safe-json.ts';
+import { generateKeys } from '../crypto-utils.ts';
+
+function reasonFor(fn: () => unknown): ParseFailure | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return error instanceof MessageParseError ? error.reason : undefined;
+  }
+  return undefined;
+}
+
+const nested = (depth: number) => '['.repeat(depth) + ']'.repeat(depth);
+
+describe('Safe JSON Parsing', () => {
+  test('drops keys that could reach a prototype', () => {
+    const parsed = parseJson(
+      '{"__proto__":{"polluted":true},"a":{"constructor":{"prototype":{"polluted":true}},"b":1}}',
+      DEFAULT_PARSE_LIMITS,
+    );
+
+    expect(parsed).toEqual({ a: { b: 1 } });
+    expect(Object.hasOwn(parsed as object, '__proto__')).toBe(false);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  test('enforces size, depth and string length limits', () => {
+    const limits = resolveParseLimits({ maxBytes: 64, maxDepth: 3, maxStringLength: 8 });
+
+    expect(reasonFor(() => parseJson(`"${'é'.repeat(32)}"`, limits))).toBe('too-large');
+    expect(reasonFor(() => parseJson(nested(4), limits))).toBe('too-deep');
+    expect(reasonFor(() => parseJson('{"long value":1}', limits))).toBe('string-too-long');
+    expect(reasonFor(() => parseJson('["123456789"]', limits))).toBe('string-too-long');
+    expect(parseJson(nested(3), limits)).toEqual([[[]]]);
+  });
+
+  test('ignores brackets inside strings when measuring depth', () => {
+    const limits = resolveParseLimits({ maxDepth: 1 });
+
+    expect(parseJson('["[[[{{{", "\\"[["]', limits)).toEqual(['[[[{{{', '"[[']);
+  });
+
+  test('raises a typed error for text that is not JSON', () => {
+    expect(() => parseJson('not json', DEFAULT_PARSE_LIMITS)).toThrow('Invalid message format');
+    expect(reasonFor(() => parseJson('{"a":', DEFAULT_PARSE_LIMITS))).toBe('invalid-json');
+  });
+
+  test('rejects invalid limits', () => {
+    expect(() => resolveParseLimits({ maxDepth: 0 })).toThrow(
+      'Parse limit maxDepth must be a positive integer',
+    );
+  });
+
+  test('plugins refuse oversized or deeply nested messages before decrypting', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys);
+    const receiver = new MessageEncryptionPlugin(keys, {
+      strict: false,
+      parseLimits: { maxBytes: 1024, maxDepth: 4 },
+    });
+
+    const envelope = sender.wrapMessage('blob', 'x'.repeat(2048));
+
+    expect(reasonFor(() => receiver.processIncomingMessage(envelope))).toBe('too-large');
+    expect(reasonFor(() => receiver.processIncomingMessage(Buffer.from(envelope)))).toBe(
+      'too-large',
+    );
+    expect(
+      reasonFor(() => receiver.processIncomingMessage(sender.wrapFrame('blob', 'x'.repeat(2048)))),
+    ).toBe('too-large');
+    expect(reasonFor(() => receiver.processIncomingMessage(nested(5)))).toBe('too-deep');
+    // The refused messages left the receiver untouched
+    expect(receiver.unwrapMessage(sender.wrapMessage('small', 'ok'))).toEqual({
+      type: 'small',
+      payload: 'ok',
+    });
+  });
+
+  test('plugins drop dangerous keys from decrypted messages', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys);
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    const message = receiver.processIncomingMessage(
+      sender.processOutgoingMessage('{"type":"chat","__proto__":{"isAdmin":true}}'),
+    );
+
+    expect(message).toEqual({ type: 'chat' });
+    expect(message.isAdmin).toBeUndefined();
+  });
+
+  test('plugin registries apply limits before dispatching', () => {
+    const keys = generateKeys();
+    const registry = new PluginRegistry([new MessageEncryptionPlugin(keys)], {
+      parseLimits: { maxBytes: 256 },
+    });
+
+    const envelope = new MessageEncryptionPlugin(keys).wrapMessage('blob', 'x'.repeat(512));
+
+    expect(reasonFor(() => registry.processIncomingMessage(envelope))).toBe('too-large');
+  });
+
+  test('handshakes reject oversized messages with a stable code', () => {
+    const consumer = new SecureConsumer();
+    const provider = new SecureProvider();
+
+    const init = JSON.stringify({ type: 'handshake-init', padding: 'x'.repeat(70 * 1024) });
+    const response = JSON.stringify({ type: 'handshake-response', deep: JSON.parse(nested(9)) });
+
+    expect(consumer.handleMessage(init)).toMatchObject({
+      type: 'error',
+      code: 'MESSAGE_PARSE_FAILED',
+    });
+    expect(provider.handleResponse(response)).toMatchObject({
+      type: 'error',
+      error: 'Message nested too deeply: exceeds 8 levels',
+      code: 'MESSAGE_PARSE_FAILED',
+    });
+  });
+});
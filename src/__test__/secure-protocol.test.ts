@@ -1,7 +1,7 @@
 import { test, expect, beforeEach, describe } from 'bun:test';
 import { SecureProvider } from '../SecureProvider.ts';
 import { SecureConsumer } from '../SecureConsumer.ts';
-import { HKDF, SecureRandom, constantTimeCompare } from '../crypto-utils.ts';
+import { HKDF, SecureRandom, TranscriptHash, constantTimeCompare } from '../crypto-utils.ts';
 
 class MockSocket {
   messages: any[] = [];
@@ -221,6 +221,85 @@ describe('Secure Protocol - Cryptographic Properties', () => {
     });
   });
 
+  describe('Transcript Binding', () => {
+    function confirmWith(init: any, tamperResponse: (_response: any) => void = () => {}) {
+      const consumerResponse = consumer.handleMessage(JSON.stringify(init));
+      const relayed = { ...consumerResponse.response };
+      tamperResponse(relayed);
+
+      const providerConfirmation = provider.handleResponse(relayed);
+      return consumer.handleMessage(
+        JSON.stringify({
+          type: 'key-confirmation-request',
+          confirmationMac: providerConfirmation.confirmationMac,
+        }),
+      );
+    }
+
+    test('hashes canonical bytes independent of key order', () => {
+      const first = new TranscriptHash();
+      first.update({ a: 1, b: ['x', 'y'] });
+      const second = new TranscriptHash();
+      second.update({ b: ['x', 'y'], a: 1 });
+
+      expect(first.digest().equals(second.digest())).toBe(true);
+    });
+
+    test('distinguishes message boundaries', () => {
+      const first = new TranscriptHash();
+      first.update('ab');
+      first.update('c');
+      const second = new TranscriptHash();
+      second.update('a');
+      second.update('bc');
+
+      expect(first.digest().equals(second.digest())).toBe(false);
+    });
+
+    test('detects cipher suites stripped from handshake-init', () => {
+      provider = new SecureProvider({ cipherSuites: ['aes-256-ctr-hmac-sha256', 'aes-256-gcm'] });
+      provider.startHandshake(socket);
+      const initMessage = socket.getLastMessage();
+      initMessage.supportedCiphers = ['aes-256-gcm'];
+
+      const result = confirmWith(initMessage);
+      expect(result.type).toBe('error');
+      expect(result.error).toContain('potential MITM attack');
+    });
+
+    test('detects tampered supported hashes', () => {
+      provider.startHandshake(socket);
+      const initMessage = socket.getLastMessage();
+      initMessage.supportedHashes = ['sha256', 'sha1'];
+
+      const result = confirmWith(initMessage);
+      expect(result.type).toBe('error');
+      expect(result.error).toContain('potential MITM attack');
+    });
+
+    test('detects groups stripped from handshake-init', () => {
+      provider.startHandshake(socket);
+      const initMessage = socket.getLastMessage();
+      initMessage.supportedGroups = ['P-256'];
+
+      const result = confirmWith(initMessage);
+      expect(result.type).toBe('error');
+      expect(result.error).toContain('potential MITM attack');
+    });
+
+    test('detects a rewritten cipher selection in handshake-response', () => {
+      provider = new SecureProvider({ cipherSuites: ['aes-256-gcm', 'aes-256-ctr-hmac-sha256'] });
+      provider.startHandshake(socket);
+      const initMessage = socket.getLastMessage();
+
+      const result = confirmWith(initMessage, response => {
+        response.selectedCipher = 'aes-256-ctr-hmac-sha256';
+      });
+      expect(result.type).toBe('error');
+      expect(result.error).toContain('potential MITM attack');
+    });
+  });
+
   describe('Key Derivation Context Separation', () => {
     test('derives different keys for different purposes', async () => {
       // Complete handshake
@@ -242,6 +321,37 @@ describe('Secure Protocol - Cryptographic Properties', () => {
       expect(keys.encryptionKey.length).toBe(32);
       expect(keys.authenticationKey.length).toBe(32);
     });
+
+    test('derives separate traffic keys for each direction', () => {
+      provider.startHandshake(socket);
+      const initMessage = socket.getLastMessage();
+      const consumerResponse = consumer.handleMessage(JSON.stringify(initMessage));
+      const providerConfirmation = provider.handleResponse(consumerResponse.response);
+      const finalConfirmation = consumer.handleMessage(
+        JSON.stringify({
+          type: 'key-confirmation-request',
+          confirmationMac: providerConfirmation.confirmationMac,
+        }),
+      );
+      provider.handleResponse(finalConfirmation.response);
+
+      const providerKeys = provider.getDerivedKeys()!;
+      const consumerKeys = consumer.getDerivedKeys()!;
+
+      expect(providerKeys.send!.encryptionKey.equals(consumerKeys.receive!.encryptionKey)).toBe(
+        true,
+      );
+      expect(providerKeys.receive!.encryptionKey.equals(consumerKeys.send!.encryptionKey)).toBe(
+        true,
+      );
+      expect(providerKeys.send!.encryptionKey.equals(providerKeys.receive!.encryptionKey)).toBe(
+        false,
+      );
+      expect(providerKeys.send!.encryptionKey.equals(providerKeys.encryptionKey)).toBe(false);
+      expect(
+        providerKeys.send!.authenticationKey.equals(providerKeys.receive!.authenticationKey),
+      ).toBe(false);
+    });
   });
 
   describe('Memory Security', () => {
@@ -0,0 +1,236 @@
+import { test, expect, describe } from 'bun:test';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import {
+  CborSerializer,
+  JsonSerializer,
+  MessagePackSerializer,
+  type Serializer,
+} from '../serializers.ts';
+import { DecryptionError, MessageParseError, type ParseFailure } from '../errors.ts';
+import { DEFAULT_PARSE_LIMITS, resolveParseLimits } from '../safe-json.ts';
+import { decodeFrame } from '../binary-frame.ts';
+import { generateKeys } from '../crypto-utils.ts';
+
+function reasonFor(fn: () => unknown): ParseFailure | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return error instanceof MessageParseError ? error.reason : undefined;
+  }
+  return undefined;
+}
+
+const reading = {
+  type: 'reading',
+  payload: {
+    at: new Date('2025-03-14T15:09:26.535Z'),
+    total: 2n ** 60n,
+    raw: Buffer.from([0, 1, 2, 255]),
+    tags: new Map<unknown, unknown>([
+      [1, 'one'],
+      ['two', 2],
+    ]),
+    values: [0, -1, 127, 128, -33, 65535, -32769, 2 ** 40, -(2 ** 40), 1.5, 'café', null, true],
+  },
+};
+
+describe('Serializers', () => {
+  for (const serializer of [new MessagePackSerializer(), new CborSerializer()]) {
+    describe(serializer.id, () => {
+      test('round-trips types JSON loses', () => {
+        expect(serializer.deserialize(serializer.serialize(reading))).toEqual(reading);
+      });
+
+      test('round-trips dates before the epoch and beyond 32-bit seconds', () => {
+        for (const date of [
+          new Date(-1),
+          new Date('1900-01-01'),
+          new Date('2200-06-01T00:00:00.001Z'),
+        ]) {
+          expect(serializer.deserialize(serializer.serialize(date))).toEqual(date);
+        }
+      });
+
+      test('round-trips long strings, arrays and maps', () => {
+        const value = {
+          text: 'x'.repeat(70000),
+          list: Array.from({ length: 300 }, (_, i) => i),
+          map: Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`k${i}`, i])),
+        };
+        expect(serializer.deserialize(serializer.serialize(value))).toEqual(value);
+      });
+
+      test('drops keys that could reach a prototype', () => {
+        const value = JSON.parse('{"__proto__":{"polluted":true},"a":{"constructor":1,"b":2}}');
+        const decoded = serializer.deserialize(
+          serializer.serialize(value),
+          DEFAULT_PARSE_LIMITS,
+        ) as Record<string, any>;
+
+        expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+        expect(decoded.polluted).toBeUndefined();
+        expect(decoded).toEqual({ a: { b: 2 } });
+      });
+
+      test('enforces depth and string length limits', () => {
+        const limits = resolveParseLimits({ maxDepth: 3, maxStringLength: 8 });
+        const nested = (depth: number): unknown => (depth === 0 ? 1 : [nested(depth - 1)]);
+
+        expect(
+          reasonFor(() => serializer.deserialize(serializer.serialize(nested(4)), limits)),
+        ).toBe('too-deep');
+        expect(
+          reasonFor(() => serializer.deserialize(serializer.serialize(['123456789']), limits)),
+        ).toBe('string-too-long');
+        expect(serializer.deserialize(serializer.serialize(nested(3)), limits)).toEqual(nested(3));
+      });
+
+      test('refuses deep nesting without exhausting the stack', () => {
+        // 100,000 nested one-element arrays, far deeper than any recursive decoder can follow
+        const bomb = Buffer.alloc(100_000, serializer.id === 'msgpack' ? 0x91 : 0x81);
+
+        expect(reasonFor(() => serializer.deserialize(bomb, DEFAULT_PARSE_LIMITS))).toBe(
+          'too-deep',
+        );
+      });
+
+      test('rejects truncated and trailing data', () => {
+        const encoded = serializer.serialize(reading);
+
+        expect(() => serializer.deserialize(encoded.subarray(0, -1))).toThrow('Malformed');
+        expect(() => serializer.deserialize(Buffer.concat([encoded, Buffer.from([0])]))).toThrow(
+          'Malformed',
+        );
+      });
+
+      test('refuses values it cannot represent', () => {
+        expect(() => serializer.serialize({ handler: () => {} })).toThrow('Cannot serialize');
+      });
+    });
+  }
+
+  test('encodes MessagePack as the spec describes', () => {
+    const msgpack = new MessagePackSerializer();
+
+    expect(msgpack.serialize({ a: [1, -1, 'b'] }).toString('hex')).toBe('81a1619301ffa162');
+    expect(msgpack.serialize(new Date(1000)).toString('hex')).toBe('d6ff00000001');
+    expect(() => msgpack.serialize(2n ** 64n)).toThrow('BigInt out of range for MessagePack');
+  });
+
+  test('encodes CBOR as RFC 8949 describes', () => {
+    const cbor = new CborSerializer();
+
+    expect(cbor.serialize({ a: [1, -1, 'b'] }).toString('hex')).toBe('a161618301206162');
+    expect(cbor.serialize(new Date(1000)).toString('hex')).toBe('c101');
+    expect(cbor.deserialize(Buffer.from('f93e00', 'hex'))).toBe(1.5);
+    expect(cbor.deserialize(Buffer.from('c249010000000000000000', 'hex'))).toBe(2n ** 64n);
+    expect(cbor.deserialize(cbor.serialize(-(2n ** 100n)))).toBe(-(2n ** 100n));
+    expect(() => cbor.deserialize(Buffer.from('9fff', 'hex'))).toThrow(
+      'Indefinite-length CBOR items are not supported',
+    );
+  });
+
+  test('JSON is the default and leaves envelopes unchanged', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys(), {
+      serializer: new JsonSerializer(),
+    });
+
+    const envelope = JSON.parse(plugin.wrapMessage('chat', 'hello'));
+
+    expect(envelope.serializer).toBeUndefined();
+  });
+
+  test('records the serializer in the envelope and decodes with it', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, { serializer: new CborSerializer() });
+    const receiver = new MessageEncryptionPlugin(keys, { serializer: new MessagePackSerializer() });
+
+    const wrapped = sender.processOutgoingMessage(reading);
+
+    expect(JSON.parse(wrapped).serializer).toBe('cbor');
+    expect(receiver.processIncomingMessage(wrapped)).toEqual(reading);
+  });
+
+  test('carries the serializer in binary frames', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, { serializer: new MessagePackSerializer() });
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    const frame = sender.processOutgoingFrame(reading);
+
+    expect(decodeFrame(frame).serializer).toBe('msgpack');
+    expect(receiver.processIncomingMessage(frame)).toEqual(reading);
+  });
+
+  test('plugins pass their parse limits to the serializer', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, { serializer: new CborSerializer() });
+    const receiver = new MessageEncryptionPlugin(keys, { parseLimits: { maxDepth: 4 } });
+
+    expect(
+      reasonFor(() => receiver.processIncomingMessage(sender.wrapFrame('deep', [[[[['x']]]]]))),
+    ).toBe('too-deep');
+  });
+
+  test('JSON deserializes with the parse limits', () => {
+    const json = new JsonSerializer();
+    const limits = resolveParseLimits({ maxDepth: 2 });
+
+    expect(json.deserialize(Buffer.from('{"__proto__":{"a":1},"b":[2]}'), limits)).toEqual({
+      b: [2],
+    });
+    expect(reasonFor(() => json.deserialize(Buffer.from('[[[1]]]'), limits))).toBe('too-deep');
+  });
+
+  test('accepts custom serializers configured at both ends', () => {
+    const reverse: Serializer = {
+      id: 'reversed-json',
+      serialize: value => Buffer.from(JSON.stringify(value)).reverse(),
+      deserialize: data => JSON.parse(Buffer.from(data).reverse().toString()),
+    };
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, { serializer: reverse });
+
+    expect(
+      new MessageEncryptionPlugin(keys, { serializer: reverse }).unwrapMessage(
+        sender.wrapMessage('a', 1),
+      ),
+    ).toEqual({ type: 'a', payload: 1 });
+    expect(() =>
+      new MessageEncryptionPlugin(keys).processIncomingMessage(sender.wrapMessage('a', 2)),
+    ).toThrow('Unsupported serializer: reversed-json');
+  });
+
+  test('authenticates the serializer id', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, { serializer: new MessagePackSerializer() });
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    const envelope = JSON.parse(sender.wrapMessage('a', 1));
+    envelope.serializer = 'cbor';
+
+    let error: unknown;
+    try {
+      receiver.processIncomingMessage(JSON.stringify(envelope));
+    } catch (e) {
+      error = e;
+    }
+    expect((error as DecryptionError).reason).toBe('authentication-failed');
+  });
+
+  test('serializes before compression and padding', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, {
+      serializer: new CborSerializer(),
+      compression: { algorithm: 'deflate', minSize: 0 },
+      padding: { type: 'block', blockSize: 64 },
+    });
+    const receiver = new MessageEncryptionPlugin(keys);
+    const message = { type: 'log', payload: { lines: Array(50).fill('repeated line') } };
+
+    const envelope = JSON.parse(sender.processOutgoingMessage(message));
+
+    expect(envelope.transforms.map((t: { name: string }) => t.name)).toEqual(['compress', 'pad']);
+    expect(receiver.processIncomingMessage(JSON.stringify(envelope))).toEqual(message);
+  });
+});
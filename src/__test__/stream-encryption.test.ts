@@ -0,0 +1,152 @@
+import { test, expect, describe } from 'bun:test';
+import { Readable } from 'stream';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { KeyLimitExceededError, ReplayError } from '../errors.ts';
+import { generateKeys } from '../crypto-utils.ts';
+import type { KeyLimitEvent } from '../BaseEncryptionPlugin.ts';
+
+const payload = Buffer.from(Array.from({ length: 10_000 }, (_, i) => (i * 31) % 256));
+
+async function collect(source: AsyncIterable<Uint8Array>): Promise<Buffer[]> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of source) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return chunks;
+}
+
+function createPair() {
+  const keys = generateKeys();
+  return {
+    sender: new MessageEncryptionPlugin(keys),
+    receiver: new MessageEncryptionPlugin(keys),
+  };
+}
+
+describe('Stream Encryption', () => {
+  test('round-trips a payload in chunks', async () => {
+    const { sender, receiver } = createPair();
+
+    const records = await collect(sender.encryptStream([payload], { chunkSize: 1024 }));
+    const plaintext = await collect(receiver.decryptStream(records));
+
+    expect(records).toHaveLength(1 + 10);
+    expect(plaintext).toHaveLength(10);
+    expect(Buffer.concat(plaintext).equals(payload)).toBe(true);
+  });
+
+  test('works with Node streams and arbitrary record boundaries', async () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys);
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    const input = Readable.from([payload.subarray(0, 3000), payload.subarray(3000)]);
+    const encrypted = Buffer.concat(
+      await collect(Readable.from(sender.encryptStream(input, { chunkSize: 4096 }))),
+    );
+
+    // Re-split the ciphertext into 7-byte pieces, as a byte stream might deliver it
+    const pieces = Array.from({ length: Math.ceil(encrypted.length / 7) }, (_, i) =>
+      encrypted.subarray(i * 7, i * 7 + 7),
+    );
+    const plaintext = await collect(receiver.decryptStream(Readable.from(pieces)));
+
+    expect(Buffer.concat(plaintext).equals(payload)).toBe(true);
+  });
+
+  test('handles an empty payload', async () => {
+    const { sender, receiver } = createPair();
+
+    const records = await collect(sender.encryptStream([]));
+    const plaintext = await collect(receiver.decryptStream(records));
+
+    expect(Buffer.concat(plaintext)).toHaveLength(0);
+  });
+
+  test('detects truncation', async () => {
+    const { sender, receiver } = createPair();
+
+    const records = await collect(sender.encryptStream([payload], { chunkSize: 1024 }));
+
+    await expect(collect(receiver.decryptStream(records.slice(0, -1)))).rejects.toThrow(
+      'Stream truncated',
+    );
+  });
+
+  test('detects reordered chunks', async () => {
+    const { sender, receiver } = createPair();
+
+    const [header, first, second, ...rest] = await collect(
+      sender.encryptStream([payload], { chunkSize: 1024 }),
+    );
+
+    await expect(
+      collect(receiver.decryptStream([header!, second!, first!, ...rest])),
+    ).rejects.toThrow();
+  });
+
+  test('detects a non-final chunk relabelled as final', async () => {
+    const { sender, receiver } = createPair();
+
+    const records = await collect(sender.encryptStream([payload], { chunkSize: 1024 }));
+    const forged = Buffer.from(records[1]!);
+    forged[4] = 0x01;
+
+    await expect(collect(receiver.decryptStream([records[0]!, forged]))).rejects.toThrow();
+  });
+
+  test('rejects data after the final chunk', async () => {
+    const { sender, receiver } = createPair();
+
+    const records = await collect(sender.encryptStream([payload], { chunkSize: 1024 }));
+
+    await expect(collect(receiver.decryptStream([...records, records[1]!]))).rejects.toThrow(
+      'Data after final stream chunk',
+    );
+  });
+
+  test('rejects a replayed stream', async () => {
+    const { sender, receiver } = createPair();
+
+    const records = await collect(sender.encryptStream([payload]));
+    await collect(receiver.decryptStream(records));
+
+    await expect(collect(receiver.decryptStream(records))).rejects.toThrow(ReplayError);
+  });
+
+  test('counts every chunk against the rekey policy', async () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, { rekeyPolicy: { maxBytes: 4096 } });
+    const receiver = new MessageEncryptionPlugin(keys);
+    const updates: Buffer[] = [];
+    const limits: KeyLimitEvent[] = [];
+    sender.on('key-update', (frame: Buffer) => updates.push(frame));
+    sender.on('key-limit', (event: KeyLimitEvent) => limits.push(event));
+
+    const records = await collect(sender.encryptStream([payload], { chunkSize: 1024 }));
+    const plaintext = await collect(receiver.decryptStream(records));
+    for (const update of updates) {
+      receiver.processIncomingMessage(update);
+    }
+
+    expect(limits).toHaveLength(2);
+    expect(limits[0]).toMatchObject({ limit: 'bytes', action: 'update', bytes: 4096 });
+    expect(receiver.getKeyGeneration().receive).toBe(2);
+    expect(Buffer.concat(plaintext).equals(payload)).toBe(true);
+
+    const refusing = new MessageEncryptionPlugin(keys, { rekeyPolicy: { maxMessages: 4 } });
+    await expect(collect(refusing.encryptStream([payload], { chunkSize: 1024 }))).rejects.toThrow(
+      KeyLimitExceededError,
+    );
+  });
+
+  test('rejects chunks larger than the receiver allows', async () => {
+    const { sender, receiver } = createPair();
+
+    const records = await collect(sender.encryptStream([payload], { chunkSize: 8192 }));
+
+    await expect(collect(receiver.decryptStream(records, { maxChunkSize: 1024 }))).rejects.toThrow(
+      'Malformed stream chunk',
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { test, expect, describe } from 'bun:test';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import { EncryptThenMacPlugin } from '../EncryptThenMacPlugin.ts';
+import { DecryptionError, SubtylSocketError } from '../errors.ts';
+import { generateKeys } from '../crypto-utils.ts';
+
+function reasonFor(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return error instanceof DecryptionError ? error.reason : undefined;
+  }
+  return undefined;
+}
+
+describe('Strict Mode', () => {
+  test('rejects unencrypted JSON once keys are set', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+
+    expect(() => plugin.processIncomingMessage('{"type":"chat","payload":"hi"}')).toThrow(
+      DecryptionError,
+    );
+    expect(reasonFor(() => plugin.processIncomingMessage('not json'))).toBe('unencrypted');
+  });
+
+  test('rejects tampered ciphertext', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+
+    const envelope = JSON.parse(plugin.wrapMessage('transfer', { amount: 100 }));
+    envelope.encrypted.data = Buffer.from('tampered').toString('base64');
+
+    expect(reasonFor(() => plugin.processIncomingMessage(JSON.stringify(envelope)))).toBe(
+      'authentication-failed',
+    );
+  });
+
+  test('rejects messages under the wrong key', () => {
+    const sender = new MessageEncryptionPlugin(generateKeys());
+    const receiver = new MessageEncryptionPlugin(generateKeys());
+
+    expect(reasonFor(() => receiver.processIncomingMessage(sender.wrapMessage('a', 1)))).toBe(
+      'authentication-failed',
+    );
+  });
+
+  test('rejects another algorithm', () => {
+    const keys = generateKeys();
+    const sender = new EncryptThenMacPlugin(keys);
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    expect(() => receiver.processIncomingMessage(sender.wrapMessage('a', 1))).toThrow(
+      'Algorithm mismatch: expected aes-256-gcm, got aes-256-ctr-hmac-sha256',
+    );
+  });
+
+  test('rejects malformed frames', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+    const frame = plugin.wrapFrame('a', 1);
+    frame[1] = 0x7f;
+
+    expect(reasonFor(() => plugin.processIncomingMessage(frame))).toBe('malformed');
+  });
+
+  test('rejects envelopes with mistyped fields', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+    const envelope = JSON.parse(plugin.wrapMessage('a', 1));
+
+    for (const field of [{ encrypted: 'ciphertext' }, { algorithm: 7 }, { serializer: 1 }]) {
+      const message = JSON.stringify({ ...envelope, ...field });
+      expect(() => plugin.processIncomingMessage(message)).toThrow(DecryptionError);
+    }
+  });
+
+  test('errors carry a stable code', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+
+    try {
+      plugin.processIncomingMessage('{}');
+      throw new Error('expected a DecryptionError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(SubtylSocketError);
+      expect((error as SubtylSocketError).code).toBe('DECRYPTION_FAILED');
+    }
+  });
+
+  test('passes messages through before keys are set', () => {
+    const plugin = new MessageEncryptionPlugin();
+
+    expect(plugin.processIncomingMessage('{"type":"hello"}')).toEqual({ type: 'hello' });
+  });
+
+  test('can be turned off', () => {
+    const sender = new MessageEncryptionPlugin(generateKeys());
+    const receiver = new MessageEncryptionPlugin(generateKeys(), { strict: false });
+    const foreign = sender.wrapMessage('a', 1);
+
+    expect(receiver.processIncomingMessage('{"type":"hello"}')).toEqual({ type: 'hello' });
+    expect(receiver.processIncomingMessage(foreign)).toBe(foreign);
+  });
+
+  test('unwrapMessage still returns null', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+
+    expect(plugin.unwrapMessage('{"type":"hello"}')).toBeNull();
+  });
+});
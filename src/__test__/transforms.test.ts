@@ -0,0 +1,170 @@
+import { test, expect, describe } from 'bun:test';
+import { MessageEncryptionPlugin } from '../MessageEncryptionPlugin.ts';
+import {
+  CompressionTransform,
+  PaddingTransform,
+  SignatureTransform,
+  type MessageTransform,
+  type TransformParams,
+} from '../transforms.ts';
+import { DecryptionError } from '../errors.ts';
+import { decodeFrame } from '../binary-frame.ts';
+import { generateIdentityKeyPair, generateKeys } from '../crypto-utils.ts';
+
+/**
+ * XORs every byte with a per-message mask, recorded in the header
+ */
+class MaskTransform implements MessageTransform {
+  readonly name = 'mask';
+  readonly calls: string[] = [];
+
+  encode(data: Buffer): { data: Buffer; params: TransformParams } {
+    this.calls.push('encode');
+    const mask = 0x5a;
+    return { data: Buffer.from(data.map(byte => byte ^ mask)), params: { mask } };
+  }
+
+  decode(data: Buffer, params: TransformParams): Buffer {
+    this.calls.push('decode');
+    return Buffer.from(data.map(byte => byte ^ Number(params.mask)));
+  }
+}
+
+const telemetry = {
+  type: 'telemetry',
+  readings: Array.from({ length: 100 }, (_, i) => ({ sensor: 'humidity', value: i % 5 })),
+};
+
+describe('Message Transforms', () => {
+  test('records each applied stage, in order, in the envelope header', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys(), {
+      transforms: [
+        new CompressionTransform({ algorithm: 'deflate' }),
+        new MaskTransform(),
+        new PaddingTransform({ type: 'block', blockSize: 64 }),
+      ],
+    });
+
+    const envelope = JSON.parse(plugin.processOutgoingMessage(telemetry));
+
+    expect(envelope.transforms).toEqual([
+      { name: 'compress', params: { algorithm: 'deflate' } },
+      { name: 'mask', params: { mask: 0x5a } },
+      { name: 'pad' },
+    ]);
+  });
+
+  test('undoes the stages in reverse on receive', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, {
+      transforms: [new MaskTransform(), new PaddingTransform({ type: 'power-of-two' })],
+    });
+    const mask = new MaskTransform();
+    const receiver = new MessageEncryptionPlugin(keys, { transforms: [mask] });
+
+    expect(receiver.processIncomingMessage(sender.processOutgoingMessage(telemetry))).toEqual(
+      telemetry,
+    );
+    expect(mask.calls).toEqual(['decode']);
+  });
+
+  test('omits stages that decline a message', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys(), {
+      transforms: [new CompressionTransform({ algorithm: 'gzip' }), new MaskTransform()],
+    });
+
+    const envelope = JSON.parse(plugin.wrapMessage('ack', null));
+
+    expect(envelope.transforms).toEqual([{ name: 'mask', params: { mask: 0x5a } }]);
+  });
+
+  test('signs and verifies messages with identity keys', () => {
+    const keys = generateKeys();
+    const alice = generateIdentityKeyPair();
+    const mallory = generateIdentityKeyPair();
+    const sender = new MessageEncryptionPlugin(keys, {
+      transforms: [new SignatureTransform({ privateKey: alice.privateKey })],
+    });
+    const impostor = new MessageEncryptionPlugin(keys, {
+      transforms: [new SignatureTransform({ privateKey: mallory.privateKey })],
+    });
+    const createReceiver = () =>
+      new MessageEncryptionPlugin(keys, {
+        transforms: [new SignatureTransform({ peerPublicKey: alice.publicKey })],
+      });
+
+    expect(createReceiver().unwrapMessage(sender.wrapMessage('order', { id: 7 }))).toEqual({
+      type: 'order',
+      payload: { id: 7 },
+    });
+    expect(() =>
+      createReceiver().processIncomingMessage(impostor.wrapMessage('order', { id: 8 })),
+    ).toThrow('Invalid message signature');
+  });
+
+  test('carries the header in binary frames', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, { transforms: [new MaskTransform()] });
+    const receiver = new MessageEncryptionPlugin(keys, { transforms: [new MaskTransform()] });
+    const bytes = Buffer.from([1, 2, 3]);
+
+    const frame = sender.wrapFrame('blob', bytes);
+
+    expect(decodeFrame(frame).transforms).toEqual([{ name: 'mask', params: { mask: 0x5a } }]);
+    expect(receiver.unwrapMessage(frame)?.payload).toEqual(bytes);
+  });
+
+  test('refuses stages the receiver does not know, before decrypting', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, { transforms: [new MaskTransform()] });
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    expect(() => receiver.processIncomingMessage(sender.wrapMessage('a', 1))).toThrow(
+      'Unsupported message transform: mask',
+    );
+  });
+
+  test('authenticates the header', () => {
+    const keys = generateKeys();
+    const sender = new MessageEncryptionPlugin(keys, {
+      transforms: [new CompressionTransform({ algorithm: 'deflate', minSize: 0 })],
+    });
+    const receiver = new MessageEncryptionPlugin(keys);
+
+    const envelope = JSON.parse(sender.processOutgoingMessage(telemetry));
+    envelope.transforms.push({ name: 'pad' });
+
+    let error: unknown;
+    try {
+      receiver.processIncomingMessage(JSON.stringify(envelope));
+    } catch (e) {
+      error = e;
+    }
+    expect((error as DecryptionError).reason).toBe('authentication-failed');
+  });
+
+  test('rejects malformed headers', () => {
+    const plugin = new MessageEncryptionPlugin(generateKeys());
+    const envelope = JSON.parse(plugin.wrapMessage('a', 1));
+
+    for (const transforms of [
+      'pad',
+      [{ name: 'pad', params: { nested: {} } }],
+      Array(9).fill({ name: 'pad' }),
+    ]) {
+      expect(() =>
+        plugin.processIncomingMessage(JSON.stringify({ ...envelope, transforms })),
+      ).toThrow('Malformed transform header');
+    }
+  });
+
+  test('cannot be combined with the compression and padding shorthands', () => {
+    expect(
+      () =>
+        new MessageEncryptionPlugin(generateKeys(), {
+          transforms: [new MaskTransform()],
+          padding: { type: 'power-of-two' },
+        }),
+    ).toThrow('Use either transforms or the compression and padding shorthands');
+  });
+});
@@ -0,0 +1,276 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import { type EncryptionResult, type PluginMessage } from './BaseEncryptionPlugin.ts';
+import { MessageParseError } from './errors.ts';
+import { DEFAULT_PARSE_LIMITS, parseJson, type ParseLimits } from './safe-json.ts';
+
+/**
+ * Compact binary encoding of encrypted envelopes, sent as WebSocket binary messages
+ *
+ *   version (1) | algorithm id (1) | flags (1) | seq (8, big-endian)
+ *     | [transforms length (2) | transforms JSON] | [serializer length (1) | serializer id]
+ *     | [nonce] | ciphertext | tag
+ *
+ * The version byte is a control character, so a frame can never be mistaken for JSON text.
+ */
+export const FRAME_VERSION = 0x01;
+
+export const FrameFlags = {
+  KEY_UPDATE: 0x01,
+  NONCE: 0x02,
+  BINARY: 0x04,
+  TRANSFORMS: 0x08,
+  SERIALIZER: 0x10,
+} as const;
+
+const KNOWN_FLAGS =
+  FrameFlags.KEY_UPDATE |
+  FrameFlags.NONCE |
+  FrameFlags.BINARY |
+  FrameFlags.TRANSFORMS |
+  FrameFlags.SERIALIZER;
+
+const HEADER_LENGTH = 11;
+
+interface FrameAlgorithm {
+  id: number;
+  nonceLength: number;
+  tagLength: number;
+}
+
+const FRAME_ALGORITHMS: Record<string, FrameAlgorithm> = {
+  'aes-256-gcm': { id: 0x01, nonceLength: 12, tagLength: 16 },
+  'chacha20-poly1305': { id: 0x02, nonceLength: 12, tagLength: 16 },
+  'aes-256-ctr-hmac-sha256': { id: 0x03, nonceLength: 16, tagLength: 32 },
+};
+
+/**
+ * Whether an incoming WebSocket message is a binary frame rather than JSON text
+ */
+export function isBinaryFrame(data: unknown): data is Buffer {
+  return Buffer.isBuffer(data) && data.length >= HEADER_LENGTH && data[0] === FRAME_VERSION;
+}
+
+/**
+ * Ciphertext, nonce and tag as raw bytes, the form frames carry them in
+ * JSON envelopes carry the same parts base64-encoded in an EncryptionResult
+ */
+export interface SealedBytes {
+  ciphertext: Buffer;
+  /**
+   * Omitted when the receiver rebuilds the nonce, as with counter nonces
+   */
+  iv?: Buffer;
+  tag: Buffer;
+}
+
+/**
+ * Decodes the base64 parts of an EncryptionResult
+ * Only results made of ciphertext, an optional IV and a tag can be converted
+ */
+export function toSealedBytes(encrypted: EncryptionResult, algorithm: string): SealedBytes {
+  const { iv, tag, ...rest } = encrypted.metadata ?? {};
+  if (typeof tag !== 'string') {
+    throw new Error('Only sequenced encrypted messages can be sent as binary frames');
+  }
+  if (Object.keys(rest).length > 0) {
+    throw new Error(`Metadata for ${algorithm} cannot be carried in a binary frame`);
+  }
+
+  const sealed: SealedBytes = {
+    ciphertext: Buffer.from(encrypted.data, 'base64'),
+    tag: Buffer.from(tag, 'base64'),
+  };
+  if (typeof iv === 'string') {
+    sealed.iv = Buffer.from(iv, 'base64');
+  }
+  return sealed;
+}
+
+/**
+ * Encodes sealed bytes as the base64 EncryptionResult of a JSON envelope
+ */
+export function fromSealedBytes(sealed: SealedBytes): EncryptionResult {
+  const metadata: Record<string, string> = { tag: sealed.tag.toString('base64') };
+  if (sealed.iv) {
+    metadata.iv = sealed.iv.toString('base64');
+  }
+  return { data: sealed.ciphertext.toString('base64'), metadata };
+}
+
+/**
+ * Encodes an encrypted envelope as a binary frame
+ * Only results made of ciphertext, an optional IV and a tag with a registered algorithm can be framed
+ */
+export function encodeFrame(message: PluginMessage): Buffer {
+  if (!message.encrypted) {
+    throw new Error('Only sequenced encrypted messages can be sent as binary frames');
+  }
+  return writeFrame(message, toSealedBytes(message.encrypted, message.algorithm));
+}
+
+/**
+ * Encodes an envelope's header fields with ciphertext already in raw bytes
+ * The envelope's own encrypted field, if any, is ignored
+ */
+export function writeFrame(message: PluginMessage, sealed: SealedBytes): Buffer {
+  const algorithm = FRAME_ALGORITHMS[message.algorithm];
+  if (!algorithm) {
+    throw new Error(`Algorithm ${message.algorithm} has no binary frame encoding`);
+  }
+
+  const { seq } = message;
+  if (typeof seq !== 'number') {
+    throw new Error('Only sequenced encrypted messages can be sent as binary frames');
+  }
+
+  const nonce = sealed.iv ?? Buffer.alloc(0);
+  if (
+    (nonce.length > 0 && nonce.length !== algorithm.nonceLength) ||
+    sealed.tag.length !== algorithm.tagLength
+  ) {
+    throw new Error(`Unexpected nonce or tag length for ${message.algorithm}`);
+  }
+
+  let flags = 0;
+  if (message.type === 'key-update') {
+    flags |= FrameFlags.KEY_UPDATE;
+  }
+  if (nonce.length > 0) {
+    flags |= FrameFlags.NONCE;
+  }
+  if (message.binary) {
+    flags |= FrameFlags.BINARY;
+  }
+  let transforms = Buffer.alloc(0);
+  if (message.transforms && message.transforms.length > 0) {
+    flags |= FrameFlags.TRANSFORMS;
+    const json = Buffer.from(JSON.stringify(message.transforms), 'utf8');
+    transforms = Buffer.alloc(2 + json.length);
+    transforms.writeUInt16BE(json.length);
+    json.copy(transforms, 2);
+  }
+  let serializer = Buffer.alloc(0);
+  if (message.serializer) {
+    flags |= FrameFlags.SERIALIZER;
+    const id = Buffer.from(message.serializer, 'utf8');
+    if (id.length > 0xff) {
+      throw new Error('Serializer id too long for a binary frame');
+    }
+    serializer = Buffer.concat([Buffer.from([id.length]), id]);
+  }
+
+  const header = Buffer.alloc(HEADER_LENGTH);
+  header[0] = FRAME_VERSION;
+  header[1] = algorithm.id;
+  header[2] = flags;
+  header.writeBigUInt64BE(BigInt(seq), 3);
+
+  return Buffer.concat([header, transforms, serializer, nonce, sealed.ciphertext, sealed.tag]);
+}
+
+/**
+ * Decodes a binary frame back into the envelope it represents
+ */
+export function decodeFrame(
+  frame: Buffer,
+  limits: Required<ParseLimits> = DEFAULT_PARSE_LIMITS,
+): PluginMessage {
+  const { message, sealed } = readFrame(frame, limits);
+  return { ...message, encrypted: fromSealedBytes(sealed) };
+}
+
+/**
+ * Decodes a binary frame into its envelope header fields and raw sealed bytes
+ * The returned envelope has no encrypted field; the bytes are views into the frame
+ * The transforms header is untrusted JSON and is parsed under the given limits
+ */
+export function readFrame(
+  frame: Buffer,
+  limits: Required<ParseLimits> = DEFAULT_PARSE_LIMITS,
+): { message: PluginMessage; sealed: SealedBytes } {
+  if (frame.length < HEADER_LENGTH) {
+    throw new Error('Malformed binary frame');
+  }
+  if (frame[0] !== FRAME_VERSION) {
+    throw new Error(`Unsupported binary frame version: ${frame[0]}`);
+  }
+
+  const entry = Object.entries(FRAME_ALGORITHMS).find(([, { id }]) => id === frame[1]);
+  if (!entry) {
+    throw new Error(`Unknown binary frame algorithm id: ${frame[1]}`);
+  }
+  const [algorithm, { nonceLength, tagLength }] = entry;
+
+  const flags = frame[2]!;
+  if (flags & ~KNOWN_FLAGS) {
+    throw new Error(`Unsupported binary frame flags: ${flags}`);
+  }
+  const seq = frame.readBigUInt64BE(3);
+  if (seq > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error('Malformed binary frame');
+  }
+
+  let offset = HEADER_LENGTH;
+  let transforms: unknown;
+  if (flags & FrameFlags.TRANSFORMS) {
+    if (frame.length < offset + 2 || frame.length < offset + 2 + frame.readUInt16BE(offset)) {
+      throw new Error('Malformed binary frame');
+    }
+    const length = frame.readUInt16BE(offset);
+    try {
+      transforms = parseJson(frame.subarray(offset + 2, offset + 2 + length), limits);
+    } catch (error) {
+      if (error instanceof MessageParseError && error.reason !== 'invalid-json') {
+        throw error;
+      }
+      throw new Error('Malformed binary frame');
+    }
+    offset += 2 + length;
+  }
+  let serializer: string | undefined;
+  if (flags & FrameFlags.SERIALIZER) {
+    if (frame.length < offset + 1 || frame.length < offset + 1 + frame[offset]!) {
+      throw new Error('Malformed binary frame');
+    }
+    const length = frame[offset]!;
+    serializer = frame.subarray(offset + 1, offset + 1 + length).toString('utf8');
+    offset += 1 + length;
+  }
+
+  const ivLength = flags & FrameFlags.NONCE ? nonceLength : 0;
+  if (frame.length < offset + ivLength + tagLength) {
+    throw new Error('Malformed binary frame');
+  }
+
+  const body = frame.subarray(offset);
+  const sealed: SealedBytes = {
+    ciphertext: body.subarray(ivLength, body.length - tagLength),
+    tag: body.subarray(body.length - tagLength),
+  };
+  if (ivLength > 0) {
+    sealed.iv = body.subarray(0, ivLength);
+  }
+
+  const message: PluginMessage = {
+    type: flags & FrameFlags.KEY_UPDATE ? 'key-update' : 'encrypted-plugin-message',
+    algorithm,
+    payload: null,
+    seq: Number(seq),
+  };
+  if (flags & FrameFlags.BINARY) {
+    message.binary = true;
+  }
+  if (transforms !== undefined) {
+    // Validated, like any envelope's, by the plugin that receives it
+    message.transforms = transforms as PluginMessage['transforms'];
+  }
+  if (serializer !== undefined) {
+    message.serializer = serializer;
+  }
+  return { message, sealed };
+}
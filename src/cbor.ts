@@ -0,0 +1,313 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+/**
+ * CBOR encoding (RFC 8949), limited to definite-length items
+ *
+ * Byte arrays become byte strings, Dates epoch-time tags (tag 1) and BigInts 64-bit integers or
+ * bignums (tags 2 and 3); 64-bit integers always decode as BigInt, so other numbers beyond 32 bits
+ * are sent as float64. Maps decode as plain objects when every key is a string, and as Map otherwise.
+ * Decoding applies the same limits and drops the same keys as parseJson; tags count as nesting.
+ */
+
+import {
+  DEFAULT_PARSE_LIMITS,
+  assertMessageSize,
+  assertNestingDepth,
+  assertStringLength,
+  isDangerousKey,
+  type ParseLimits,
+} from './safe-json.ts';
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+const TAG_DATE_STRING = 0;
+const TAG_EPOCH = 1;
+const TAG_POSITIVE_BIGNUM = 2;
+const TAG_NEGATIVE_BIGNUM = 3;
+
+export function encodeCbor(value: unknown): Buffer {
+  const chunks: Buffer[] = [];
+  write(value, chunks);
+  return Buffer.concat(chunks);
+}
+
+export function decodeCbor(
+  data: Buffer,
+  limits: Required<ParseLimits> = DEFAULT_PARSE_LIMITS,
+): unknown {
+  assertMessageSize(data.length, limits);
+  const reader = { data, offset: 0, depth: 0, limits };
+  const value = read(reader);
+  if (reader.offset !== data.length) {
+    throw new Error('Malformed CBOR data');
+  }
+  return value;
+}
+
+/**
+ * Writes a major type with the smallest argument encoding that holds it
+ */
+function writeHead(major: number, argument: number | bigint, chunks: Buffer[]): void {
+  const type = major << 5;
+  if (typeof argument === 'bigint') {
+    const buffer = Buffer.alloc(9);
+    buffer[0] = type | 27;
+    buffer.writeBigUInt64BE(argument, 1);
+    chunks.push(buffer);
+  } else if (argument < 24) {
+    chunks.push(Buffer.from([type | argument]));
+  } else if (argument <= 0xff) {
+    chunks.push(Buffer.from([type | 24, argument]));
+  } else if (argument <= 0xffff) {
+    const buffer = Buffer.alloc(3);
+    buffer[0] = type | 25;
+    buffer.writeUInt16BE(argument, 1);
+    chunks.push(buffer);
+  } else if (argument <= 0xffffffff) {
+    const buffer = Buffer.alloc(5);
+    buffer[0] = type | 26;
+    buffer.writeUInt32BE(argument, 1);
+    chunks.push(buffer);
+  } else {
+    throw new Error('Value too large for CBOR');
+  }
+}
+
+function writeNumber(value: number, chunks: Buffer[]): void {
+  if (Number.isInteger(value) && value >= 0 && value <= 0xffffffff) {
+    writeHead(MAJOR_UNSIGNED, value, chunks);
+  } else if (Number.isInteger(value) && value < 0 && value >= -0x100000000) {
+    writeHead(MAJOR_NEGATIVE, -1 - value, chunks);
+  } else {
+    const buffer = Buffer.alloc(9);
+    buffer[0] = (MAJOR_SIMPLE << 5) | 27;
+    buffer.writeDoubleBE(value, 1);
+    chunks.push(buffer);
+  }
+}
+
+function writeBigInt(value: bigint, chunks: Buffer[]): void {
+  const limit = 1n << 64n;
+  if (value >= 0n && value < limit) {
+    writeHead(MAJOR_UNSIGNED, value, chunks);
+  } else if (value < 0n && value >= -limit) {
+    writeHead(MAJOR_NEGATIVE, -1n - value, chunks);
+  } else {
+    const negative = value < 0n;
+    const hex = (negative ? -1n - value : value).toString(16);
+    writeHead(MAJOR_TAG, negative ? TAG_NEGATIVE_BIGNUM : TAG_POSITIVE_BIGNUM, chunks);
+    const magnitude = Buffer.from(hex.padStart(hex.length + (hex.length % 2), '0'), 'hex');
+    writeHead(MAJOR_BYTES, magnitude.length, chunks);
+    chunks.push(magnitude);
+  }
+}
+
+function write(value: unknown, chunks: Buffer[]): void {
+  if (value === false || value === true || value === null || value === undefined) {
+    const simple = value === false ? 20 : value === true ? 21 : value === null ? 22 : 23;
+    chunks.push(Buffer.from([(MAJOR_SIMPLE << 5) | simple]));
+  } else if (typeof value === 'number') {
+    writeNumber(value, chunks);
+  } else if (typeof value === 'bigint') {
+    writeBigInt(value, chunks);
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    writeHead(MAJOR_TEXT, bytes.length, chunks);
+    chunks.push(bytes);
+  } else if (value instanceof Uint8Array) {
+    writeHead(MAJOR_BYTES, value.length, chunks);
+    chunks.push(Buffer.from(value));
+  } else if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new Error('Cannot serialize an invalid Date');
+    }
+    writeHead(MAJOR_TAG, TAG_EPOCH, chunks);
+    writeNumber(value.getTime() / 1000, chunks);
+  } else if (Array.isArray(value)) {
+    writeHead(MAJOR_ARRAY, value.length, chunks);
+    for (const item of value) {
+      write(item, chunks);
+    }
+  } else if (typeof value === 'object') {
+    const entries = value instanceof Map ? [...value.entries()] : Object.entries(value);
+    writeHead(MAJOR_MAP, entries.length, chunks);
+    for (const [key, item] of entries) {
+      write(key, chunks);
+      write(item, chunks);
+    }
+  } else {
+    throw new Error(`Cannot serialize a ${typeof value} as CBOR`);
+  }
+}
+
+interface Reader {
+  data: Buffer;
+  offset: number;
+  depth: number;
+  limits: Required<ParseLimits>;
+}
+
+function take(reader: Reader, length: number): Buffer {
+  if (reader.offset + length > reader.data.length) {
+    throw new Error('Malformed CBOR data');
+  }
+  const bytes = reader.data.subarray(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return bytes;
+}
+
+/**
+ * Reads the argument following an initial byte; 8-byte arguments come back as BigInt
+ */
+function readArgument(reader: Reader, info: number): number | bigint {
+  if (info < 24) return info;
+  if (info === 24) return take(reader, 1)[0]!;
+  if (info === 25) return take(reader, 2).readUInt16BE(0);
+  if (info === 26) return take(reader, 4).readUInt32BE(0);
+  if (info === 27) return take(reader, 8).readBigUInt64BE(0);
+  if (info === 31) {
+    throw new Error('Indefinite-length CBOR items are not supported');
+  }
+  throw new Error('Malformed CBOR data');
+}
+
+/**
+ * Reads a length argument, refusing any longer than the bytes left to hold it
+ */
+function readLength(reader: Reader, info: number, bytesPerItem: number): number {
+  const length = readArgument(reader, info);
+  if (typeof length === 'bigint' || length * bytesPerItem > reader.data.length - reader.offset) {
+    throw new Error('Malformed CBOR data');
+  }
+  return length;
+}
+
+/**
+ * Reads the items of an array, map or tag one level deeper, refusing nesting beyond the limit
+ */
+function readNested<T>(reader: Reader, readItems: () => T): T {
+  assertNestingDepth(++reader.depth, reader.limits);
+  const items = readItems();
+  reader.depth--;
+  return items;
+}
+
+function readMap(reader: Reader, length: number): Record<string, unknown> | Map<unknown, unknown> {
+  const entries = readNested(reader, () =>
+    Array.from({ length }, () => [read(reader), read(reader)] as const),
+  );
+  if (!entries.every(([key]) => typeof key === 'string')) {
+    return new Map(entries);
+  }
+
+  const object: Record<string, unknown> = {};
+  for (const [key, item] of entries) {
+    if (!isDangerousKey(key as string)) {
+      object[key as string] = item;
+    }
+  }
+  return object;
+}
+
+function readTag(reader: Reader, tag: number | bigint): unknown {
+  const content = readNested(reader, () => read(reader));
+  switch (tag) {
+    case TAG_DATE_STRING:
+    case TAG_EPOCH: {
+      let date: Date | null = null;
+      if (tag === TAG_DATE_STRING && typeof content === 'string') {
+        date = new Date(content);
+      } else if (tag === TAG_EPOCH && typeof content === 'number') {
+        date = new Date(Math.round(content * 1000));
+      }
+      if (!date || Number.isNaN(date.getTime())) {
+        throw new Error('Malformed CBOR data');
+      }
+      return date;
+    }
+    case TAG_POSITIVE_BIGNUM:
+    case TAG_NEGATIVE_BIGNUM: {
+      if (!Buffer.isBuffer(content)) {
+        throw new Error('Malformed CBOR data');
+      }
+      const magnitude = content.length ? BigInt(`0x${content.toString('hex')}`) : 0n;
+      return tag === TAG_POSITIVE_BIGNUM ? magnitude : -1n - magnitude;
+    }
+    default:
+      // Unknown tags only annotate their content, which is still usable as is
+      return content;
+  }
+}
+
+function readSimple(reader: Reader, info: number): unknown {
+  switch (info) {
+    case 20:
+      return false;
+    case 21:
+      return true;
+    case 22:
+      return null;
+    case 23:
+      return undefined;
+    case 25:
+      return readHalf(take(reader, 2).readUInt16BE(0));
+    case 26:
+      return take(reader, 4).readFloatBE(0);
+    case 27:
+      return take(reader, 8).readDoubleBE(0);
+    default:
+      throw new Error('Malformed CBOR data');
+  }
+}
+
+function readHalf(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function read(reader: Reader): unknown {
+  const initial = take(reader, 1)[0]!;
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  switch (major) {
+    case MAJOR_UNSIGNED:
+      return readArgument(reader, info);
+    case MAJOR_NEGATIVE: {
+      const argument = readArgument(reader, info);
+      return typeof argument === 'bigint' ? -1n - argument : -1 - argument;
+    }
+    case MAJOR_BYTES:
+      return Buffer.from(take(reader, readLength(reader, info, 1)));
+    case MAJOR_TEXT: {
+      const text = take(reader, readLength(reader, info, 1)).toString('utf8');
+      assertStringLength(text.length, reader.limits);
+      return text;
+    }
+    case MAJOR_ARRAY: {
+      const length = readLength(reader, info, 1);
+      return readNested(reader, () => Array.from({ length }, () => read(reader)));
+    }
+    case MAJOR_MAP:
+      return readMap(reader, readLength(reader, info, 2));
+    case MAJOR_TAG:
+      return readTag(reader, readArgument(reader, info));
+    default:
+      return readSimple(reader, info);
+  }
+}
@@ -0,0 +1,83 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import { createCipheriv, createDecipheriv, getCiphers } from 'crypto';
+import { chacha20poly1305 } from '@noble/ciphers/chacha.js';
+
+/**
+ * ChaCha20-Poly1305 AEAD (RFC 8439)
+ * Uses the runtime's native cipher when available and falls back to the audited @noble/ciphers
+ * implementation otherwise (e.g. Bun, whose BoringSSL build does not expose it)
+ */
+
+const TAG_LENGTH = 16;
+const hasNativeCipher = getCiphers().includes('chacha20-poly1305');
+
+export interface SealedData {
+  ciphertext: Buffer;
+  tag: Buffer;
+}
+
+function assertKeyAndNonce(key: Buffer, nonce: Buffer): void {
+  if (key.length !== 32 || nonce.length !== 12) {
+    throw new Error('ChaCha20-Poly1305 requires a 32-byte key and 12-byte nonce');
+  }
+}
+
+export function chacha20Poly1305Seal(
+  key: Buffer,
+  nonce: Buffer,
+  plaintext: Buffer,
+  aad: Buffer = Buffer.alloc(0),
+): SealedData {
+  assertKeyAndNonce(key, nonce);
+
+  if (hasNativeCipher) {
+    const cipher = createCipheriv('chacha20-poly1305', key, nonce, {
+      authTagLength: TAG_LENGTH,
+    });
+    cipher.setAAD(aad, { plaintextLength: plaintext.length });
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { ciphertext, tag: cipher.getAuthTag() };
+  }
+
+  const sealed = chacha20poly1305(key, nonce, aad).encrypt(plaintext);
+  const tagOffset = sealed.length - TAG_LENGTH;
+  return {
+    ciphertext: Buffer.from(sealed.buffer, sealed.byteOffset, tagOffset),
+    tag: Buffer.from(sealed.buffer, sealed.byteOffset + tagOffset, TAG_LENGTH),
+  };
+}
+
+export function chacha20Poly1305Open(
+  key: Buffer,
+  nonce: Buffer,
+  ciphertext: Buffer,
+  tag: Buffer,
+  aad: Buffer = Buffer.alloc(0),
+): Buffer {
+  assertKeyAndNonce(key, nonce);
+
+  if (hasNativeCipher) {
+    const decipher = createDecipheriv('chacha20-poly1305', key, nonce, {
+      authTagLength: TAG_LENGTH,
+    });
+    decipher.setAAD(aad, { plaintextLength: ciphertext.length });
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  // Report a failed tag check the way the native cipher does
+  if (tag.length !== TAG_LENGTH) {
+    throw new Error('Unsupported state or unable to authenticate data');
+  }
+  try {
+    const plaintext = chacha20poly1305(key, nonce, aad).decrypt(Buffer.concat([ciphertext, tag]));
+    return Buffer.from(plaintext.buffer, plaintext.byteOffset, plaintext.length);
+  } catch {
+    throw new Error('Unsupported state or unable to authenticate data');
+  }
+}
@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import {
+  type BaseEncryptionPlugin,
+  type EncryptionKeys,
+  type EncryptionPluginOptions,
+} from './BaseEncryptionPlugin.ts';
+import { ChaCha20Poly1305Plugin } from './ChaCha20Poly1305Plugin.ts';
+import { EncryptThenMacPlugin } from './EncryptThenMacPlugin.ts';
+import { MessageEncryptionPlugin } from './MessageEncryptionPlugin.ts';
+
+const CIPHER_SUITE_PLUGINS = {
+  'aes-256-gcm': MessageEncryptionPlugin,
+  'chacha20-poly1305': ChaCha20Poly1305Plugin,
+  'aes-256-ctr-hmac-sha256': EncryptThenMacPlugin,
+} satisfies Record<
+  string,
+  new (_keys?: EncryptionKeys, _options?: EncryptionPluginOptions) => BaseEncryptionPlugin
+>;
+
+export type CipherSuite = keyof typeof CIPHER_SUITE_PLUGINS;
+
+/**
+ * Cipher suites offered by default, most preferred first
+ * aes-256-ctr-hmac-sha256 is supported but must be enabled explicitly
+ */
+export const DEFAULT_CIPHER_SUITES: readonly CipherSuite[] = ['aes-256-gcm', 'chacha20-poly1305'];
+
+/**
+ * Keys produced by a completed handshake together with the negotiated cipher suite
+ */
+export interface SessionKeys extends EncryptionKeys {
+  cipher: CipherSuite;
+}
+
+export function isCipherSuite(value: unknown): value is CipherSuite {
+  return typeof value === 'string' && Object.hasOwn(CIPHER_SUITE_PLUGINS, value);
+}
+
+/**
+ * Validates a locally configured preference list
+ */
+export function resolveCipherSuites(suites?: readonly string[]): CipherSuite[] {
+  if (!suites) {
+    return [...DEFAULT_CIPHER_SUITES];
+  }
+  if (suites.length === 0) {
+    throw new Error('At least one cipher suite must be enabled');
+  }
+
+  return suites.map(suite => {
+    if (!isCipherSuite(suite)) {
+      throw new Error(`Unknown cipher suite: ${suite}`);
+    }
+    return suite;
+  });
+}
+
+/**
+ * Picks the first suite in the offerer's preference order that we also support
+ */
+export function selectCipherSuite(
+  offered: unknown,
+  supported: readonly CipherSuite[],
+): CipherSuite | undefined {
+  if (!Array.isArray(offered)) {
+    return undefined;
+  }
+
+  return offered.find((suite): suite is CipherSuite => supported.includes(suite));
+}
+
+/**
+ * Instantiates the encryption plugin matching the negotiated cipher suite
+ */
+export function createEncryptionPlugin(
+  keys: SessionKeys,
+  options?: EncryptionPluginOptions,
+): BaseEncryptionPlugin {
+  const Plugin = CIPHER_SUITE_PLUGINS[keys.cipher];
+  if (!Plugin) {
+    throw new Error(`Unknown cipher suite: ${keys.cipher}`);
+  }
+
+  return new Plugin(keys, options);
+}
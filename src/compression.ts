@@ -0,0 +1,88 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import {
+  brotliCompressSync,
+  brotliDecompressSync,
+  deflateSync,
+  gunzipSync,
+  gzipSync,
+  inflateSync,
+} from 'zlib';
+
+export type CompressionAlgorithm = 'deflate' | 'gzip' | 'brotli';
+
+export interface CompressionOptions {
+  algorithm: CompressionAlgorithm;
+  /**
+   * Messages shorter than this many bytes are sent uncompressed (default 128)
+   */
+  minSize?: number;
+  /**
+   * Message types never compressed, such as those mixing secrets with attacker-chosen text,
+   * where compressed length can leak the secret (as in CRIME and BREACH)
+   */
+  excludeTypes?: readonly string[];
+  /**
+   * Largest decompressed message the receiver accepts (default 16 MiB)
+   */
+  maxDecompressedSize?: number;
+}
+
+export const DEFAULT_MAX_DECOMPRESSED_SIZE = 16 * 1024 * 1024;
+
+const COMPRESSORS: Record<CompressionAlgorithm, (_data: Buffer) => Buffer> = {
+  deflate: data => deflateSync(data),
+  gzip: data => gzipSync(data),
+  brotli: data => brotliCompressSync(data),
+};
+
+const DECOMPRESSORS: Record<
+  CompressionAlgorithm,
+  (_data: Buffer, _options: { maxOutputLength: number }) => Buffer
+> = {
+  deflate: inflateSync,
+  gzip: gunzipSync,
+  brotli: brotliDecompressSync,
+};
+
+export function isCompressionAlgorithm(value: unknown): value is CompressionAlgorithm {
+  return typeof value === 'string' && Object.hasOwn(COMPRESSORS, value);
+}
+
+export function validateCompressionOptions(options: CompressionOptions): void {
+  if (!isCompressionAlgorithm(options.algorithm)) {
+    throw new Error(`Unknown compression algorithm: ${options.algorithm}`);
+  }
+  const { minSize, maxDecompressedSize } = options;
+  if (minSize !== undefined && (!Number.isInteger(minSize) || minSize < 0)) {
+    throw new Error('Compression minSize must be a non-negative integer');
+  }
+  if (
+    maxDecompressedSize !== undefined &&
+    (!Number.isInteger(maxDecompressedSize) || maxDecompressedSize < 1)
+  ) {
+    throw new Error('Compression maxDecompressedSize must be a positive integer');
+  }
+}
+
+export function compress(data: Buffer, algorithm: CompressionAlgorithm): Buffer {
+  return COMPRESSORS[algorithm](data);
+}
+
+/**
+ * Decompresses without ever allocating more than maxSize bytes, so a zip bomb fails early
+ */
+export function decompress(data: Buffer, algorithm: CompressionAlgorithm, maxSize: number): Buffer {
+  try {
+    return DECOMPRESSORS[algorithm](data, { maxOutputLength: maxSize });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Decompressed message exceeds ${maxSize} bytes`);
+    }
+    throw new Error('Malformed compressed message');
+  }
+}
@@ -4,7 +4,19 @@
  * Unauthorized copying, distribution, or use is strictly prohibited.
  */
 
-import { createHmac, randomBytes, createCipheriv, createDecipheriv } from 'crypto';
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  type KeyObject,
+} from 'crypto';
 
 /**
  * HKDF (HMAC-based Key Derivation Function) implementation following RFC 5869
@@ -104,6 +116,240 @@ export function createContextInfo(context: string, version: number = 1): Buffer
   return Buffer.concat([lengthBuffer, contextBuffer, versionBuffer]);
 }
 
+/**
+ * Derives the next generation of a traffic key pair from the current one (one-way ratchet)
+ * Compromise of the new keys reveals nothing about traffic protected by the old ones
+ */
+export function ratchetTrafficKeys(keys: {
+  encryptionKey: Buffer;
+  authenticationKey: Buffer;
+  iv?: Buffer;
+}): { encryptionKey: Buffer; authenticationKey: Buffer; iv?: Buffer } {
+  const salt = Buffer.alloc(32);
+  const next: { encryptionKey: Buffer; authenticationKey: Buffer; iv?: Buffer } = {
+    encryptionKey: HKDF.derive(
+      keys.encryptionKey,
+      salt,
+      createContextInfo('SubtylSocket-KeyUpdate-Encryption'),
+      32,
+    ),
+    authenticationKey: HKDF.derive(
+      keys.authenticationKey,
+      salt,
+      createContextInfo('SubtylSocket-KeyUpdate-Authentication'),
+      32,
+    ),
+  };
+  if (keys.iv) {
+    next.iv = HKDF.derive(
+      keys.encryptionKey,
+      salt,
+      createContextInfo('SubtylSocket-KeyUpdate-IV'),
+      keys.iv.length,
+    );
+  }
+  return next;
+}
+
+/**
+ * Per-message nonce from a static IV and sequence number, as in TLS 1.3 (RFC 8446 §5.3)
+ * The sequence number is XORed into the rightmost 8 bytes, so nonces never repeat under one IV
+ */
+export function counterNonce(iv: Buffer, seq: number): Buffer {
+  if (iv.length < 8) {
+    throw new Error('Counter nonce IV must be at least 8 bytes');
+  }
+  const nonce = Buffer.from(iv);
+  const offset = nonce.length - 8;
+  nonce.writeBigUInt64BE(nonce.readBigUInt64BE(offset) ^ BigInt(seq), offset);
+  return nonce;
+}
+
+/**
+ * Deterministic byte encoding of a JSON-compatible value
+ * Object keys are sorted so both parties produce identical bytes for signing and hashing
+ */
+export function canonicalize(value: unknown): Buffer {
+  return Buffer.from(canonicalJson(value), 'utf8');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Running SHA-256 hash over the canonical bytes of every handshake message
+ * Binding keys and confirmation MACs to it makes any tampering with negotiation fields detectable
+ */
+export class TranscriptHash {
+  private readonly hash = createHash('sha256');
+
+  /**
+   * Appends a handshake message, length-prefixed so message boundaries are unambiguous
+   */
+  update(message: unknown): void {
+    const bytes = canonicalize(message);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(bytes.length);
+    this.hash.update(length).update(bytes);
+  }
+
+  /**
+   * Hash of all messages so far; further messages may still be appended
+   */
+  digest(): Buffer {
+    return this.hash.copy().digest();
+  }
+}
+
+/**
+ * Long-term identity key material accepted by the secure handshake classes
+ * Keys may be KeyObjects or PEM/DER encodings understood by Node's crypto module
+ */
+export type IdentityKey = KeyObject | string | Buffer;
+
+export interface IdentityKeyPair {
+  privateKey: IdentityKey;
+  publicKey: IdentityKey;
+}
+
+export type IdentityKeyType = 'ed25519' | 'p-256';
+
+/**
+ * Generate a long-term identity key pair (Ed25519 or ECDSA P-256)
+ */
+export function generateIdentityKeyPair(type: IdentityKeyType = 'ed25519'): {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+} {
+  if (type === 'p-256') {
+    return generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  }
+  return generateKeyPairSync('ed25519');
+}
+
+function toPrivateKeyObject(key: IdentityKey): KeyObject {
+  return typeof key === 'string' || Buffer.isBuffer(key) ? createPrivateKey(key) : key;
+}
+
+function toPublicKeyObject(key: IdentityKey): KeyObject {
+  if (typeof key === 'string' || Buffer.isBuffer(key)) {
+    return createPublicKey(key);
+  }
+  return key.type === 'private' ? createPublicKey(key) : key;
+}
+
+function assertIdentityKeyType(key: KeyObject): void {
+  const isEd25519 = key.asymmetricKeyType === 'ed25519';
+  const isP256 =
+    key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+
+  if (!isEd25519 && !isP256) {
+    throw new Error('Unsupported identity key type - expected Ed25519 or ECDSA P-256');
+  }
+}
+
+/**
+ * Encodes an identity public key as base64 SPKI DER for transmission
+ */
+export function exportIdentityPublicKey(key: IdentityKey): string {
+  const publicKey = toPublicKeyObject(key);
+  assertIdentityKeyType(publicKey);
+  return publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+}
+
+/**
+ * Decodes a base64 SPKI DER identity public key received from a peer
+ */
+export function importIdentityPublicKey(encoded: string): KeyObject {
+  const publicKey = createPublicKey({
+    key: Buffer.from(encoded, 'base64'),
+    format: 'der',
+    type: 'spki',
+  });
+  assertIdentityKeyType(publicKey);
+  return publicKey;
+}
+
+/**
+ * SSH-style fingerprint of an identity public key: SHA-256 over its SPKI DER encoding
+ */
+export function identityFingerprint(key: IdentityKey): string {
+  const der = Buffer.from(exportIdentityPublicKey(key), 'base64');
+  return `SHA256:${createHash('sha256').update(der).digest('base64').replace(/=+$/, '')}`;
+}
+
+/**
+ * Signs data with an identity private key
+ * ECDSA signatures use the fixed-length IEEE P1363 encoding
+ */
+export function signWithIdentityKey(privateKey: IdentityKey, data: Buffer): Buffer {
+  const key = toPrivateKeyObject(privateKey);
+  assertIdentityKeyType(key);
+
+  if (key.asymmetricKeyType === 'ed25519') {
+    return sign(null, data, key);
+  }
+  return sign('sha256', data, { key, dsaEncoding: 'ieee-p1363' });
+}
+
+/**
+ * Verifies an identity signature, returning false rather than throwing on malformed input
+ */
+export function verifyIdentitySignature(
+  publicKey: IdentityKey,
+  data: Buffer,
+  signature: Buffer,
+): boolean {
+  try {
+    const key = toPublicKeyObject(publicKey);
+    assertIdentityKeyType(key);
+
+    if (key.asymmetricKeyType === 'ed25519') {
+      return verify(null, data, key, signature);
+    }
+    return verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Out-of-band provisioned secret mixed into the handshake key derivation
+ */
+export interface PreSharedKey {
+  identity: string;
+  key: Buffer;
+}
+
+/**
+ * Validates and copies a pre-shared key so it can be zeroized independently of the caller's buffer
+ */
+export function clonePreSharedKey(psk: PreSharedKey): PreSharedKey {
+  if (!psk.identity) {
+    throw new Error('Pre-shared key identity must not be empty');
+  }
+  if (psk.key.length < 16) {
+    throw new Error('Pre-shared key must be at least 16 bytes');
+  }
+
+  return { identity: psk.identity, key: Buffer.from(psk.key) };
+}
+
 /**
  * Generate encryption and authentication keys
  */
@@ -0,0 +1,137 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+export type KeyLimit = 'messages' | 'bytes' | 'age';
+
+/**
+ * Base class for errors that applications are expected to distinguish and log
+ * The stable `code` survives message rewording and serialization
+ */
+export class SubtylSocketError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+/**
+ * Raised when a known peer presents an identity key different from the one on record
+ * Either the peer rotated its key or someone is impersonating it
+ */
+export class PeerKeyChangedError extends SubtylSocketError {
+  readonly peerLabel: string;
+  readonly expectedFingerprint: string;
+  readonly receivedFingerprint: string;
+
+  constructor(peerLabel: string, expectedFingerprint: string, receivedFingerprint: string) {
+    super(
+      'PEER_KEY_CHANGED',
+      `Identity key for peer "${peerLabel}" has changed - possible impersonation ` +
+        `(expected ${expectedFingerprint}, received ${receivedFingerprint})`,
+    );
+    this.peerLabel = peerLabel;
+    this.expectedFingerprint = expectedFingerprint;
+    this.receivedFingerprint = receivedFingerprint;
+  }
+}
+
+/**
+ * Raised when a plugin refuses to encrypt because its traffic keys reached a usage limit
+ * The session needs a key update or a fresh handshake before it can send again
+ */
+export class KeyLimitExceededError extends SubtylSocketError {
+  readonly limit: KeyLimit;
+
+  constructor(limit: KeyLimit) {
+    super('KEY_LIMIT_EXCEEDED', `Traffic key ${limit} limit reached - a key update is required`);
+    this.limit = limit;
+  }
+}
+
+/**
+ * Raised when an incoming message repeats a sequence number or falls behind the replay window
+ */
+export class ReplayError extends SubtylSocketError {
+  readonly seq: number;
+  readonly reason: 'duplicate' | 'too-old';
+
+  constructor(seq: number, reason: 'duplicate' | 'too-old') {
+    super(
+      'REPLAY_DETECTED',
+      reason === 'duplicate'
+        ? `Replayed message rejected (sequence ${seq} already received)`
+        : `Replayed message rejected (sequence ${seq} is outside the replay window)`,
+    );
+    this.seq = seq;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised when an incoming envelope names an algorithm the receiver will not or cannot decrypt
+ */
+export class UnsupportedAlgorithmError extends SubtylSocketError {
+  readonly algorithm: string;
+  readonly reason: 'not-allowed' | 'not-registered';
+
+  constructor(algorithm: string, reason: 'not-allowed' | 'not-registered') {
+    super(
+      'UNSUPPORTED_ALGORITHM',
+      reason === 'not-allowed'
+        ? `Algorithm ${algorithm} is not in the allowlist`
+        : `No plugin registered for algorithm ${algorithm}`,
+    );
+    this.algorithm = algorithm;
+    this.reason = reason;
+  }
+}
+
+export type DecryptionFailure =
+  | 'unencrypted'
+  | 'malformed'
+  | 'algorithm-mismatch'
+  | 'authentication-failed';
+
+/**
+ * Raised in strict mode when an incoming message is not encrypted or cannot be decrypted
+ */
+export class DecryptionError extends SubtylSocketError {
+  readonly reason: DecryptionFailure;
+
+  constructor(reason: DecryptionFailure, detail?: string) {
+    const messages: Record<DecryptionFailure, string> = {
+      unencrypted: 'Unencrypted message rejected',
+      malformed: 'Malformed encrypted message',
+      'algorithm-mismatch': 'Algorithm mismatch',
+      'authentication-failed': 'Message failed authentication',
+    };
+    super('DECRYPTION_FAILED', detail ? `${messages[reason]}: ${detail}` : messages[reason]);
+    this.reason = reason;
+  }
+}
+
+export type ParseFailure = 'invalid-json' | 'too-large' | 'too-deep' | 'string-too-long';
+
+/**
+ * Raised when an incoming message is not JSON or breaks a parse limit, before any crypto is attempted
+ */
+export class MessageParseError extends SubtylSocketError {
+  readonly reason: ParseFailure;
+
+  constructor(reason: ParseFailure, detail?: string) {
+    const messages: Record<ParseFailure, string> = {
+      'invalid-json': 'Invalid message format',
+      'too-large': 'Message too large',
+      'too-deep': 'Message nested too deeply',
+      'string-too-long': 'Message string too long',
+    };
+    super('MESSAGE_PARSE_FAILED', detail ? `${messages[reason]}: ${detail}` : messages[reason]);
+    this.reason = reason;
+  }
+}
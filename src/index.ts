@@ -6,11 +6,86 @@
 
 import { Consumer } from './Consumer.ts';
 import { Provider } from './Provider.ts';
-import { SecureConsumer } from './SecureConsumer.ts';
-import { SecureProvider } from './SecureProvider.ts';
-import { HKDF, SecureRandom, constantTimeCompare, createContextInfo } from './crypto-utils.ts';
-import { BaseEncryptionPlugin, type EncryptionKeys } from './BaseEncryptionPlugin.ts';
+import { SecureConsumer, type SecureConsumerOptions } from './SecureConsumer.ts';
+import {
+  SecureProvider,
+  type ClientAuthorizer,
+  type SecureProviderOptions,
+} from './SecureProvider.ts';
+import {
+  HKDF,
+  SecureRandom,
+  constantTimeCompare,
+  createContextInfo,
+  generateIdentityKeyPair,
+  identityFingerprint,
+  type IdentityKey,
+  type IdentityKeyPair,
+  type PreSharedKey,
+} from './crypto-utils.ts';
+import {
+  BaseEncryptionPlugin,
+  type DirectionalKeys,
+  type KeyEpoch,
+  type EncryptionContext,
+  type MessageDirection,
+  type EncryptionKeys,
+  type EncryptionPluginOptions,
+  type KeyLimitEvent,
+  type RekeyPolicy,
+} from './BaseEncryptionPlugin.ts';
+import {
+  AEADEncryptionPlugin,
+  type StreamDecryptionOptions,
+  type StreamEncryptionOptions,
+} from './AEADEncryptionPlugin.ts';
 import { MessageEncryptionPlugin } from './MessageEncryptionPlugin.ts';
+import { ChaCha20Poly1305Plugin } from './ChaCha20Poly1305Plugin.ts';
+import { EncryptThenMacPlugin } from './EncryptThenMacPlugin.ts';
+import {
+  DEFAULT_CIPHER_SUITES,
+  createEncryptionPlugin,
+  type CipherSuite,
+  type SessionKeys,
+} from './cipher-suites.ts';
+import { type KeyAgreementGroup } from './key-agreement.ts';
+import {
+  FileKnownPeersStore,
+  MemoryKnownPeersStore,
+  type KnownPeersStore,
+} from './KnownPeersStore.ts';
+import {
+  KeyLimitExceededError,
+  ReplayError,
+  PeerKeyChangedError,
+  SubtylSocketError,
+  UnsupportedAlgorithmError,
+  DecryptionError,
+  type DecryptionFailure,
+  MessageParseError,
+  type ParseFailure,
+} from './errors.ts';
+import { ReplayWindow } from './ReplayWindow.ts';
+import { type ParseLimits } from './safe-json.ts';
+import { type PaddingPolicy } from './padding.ts';
+import { type CompressionAlgorithm, type CompressionOptions } from './compression.ts';
+import {
+  CompressionTransform,
+  PaddingTransform,
+  SignatureTransform,
+  type MessageTransform,
+  type SignatureTransformOptions,
+  type TransformParams,
+  type TransformRecord,
+} from './transforms.ts';
+import {
+  CborSerializer,
+  JsonSerializer,
+  MessagePackSerializer,
+  type Serializer,
+} from './serializers.ts';
+import { PluginRegistry, type PluginRegistryOptions } from './PluginRegistry.ts';
+import { decodeFrame, encodeFrame, isBinaryFrame, type SealedBytes } from './binary-frame.ts';
 
 export {
   // Legacy implementations (deprecated - use Secure* variants)
@@ -20,15 +95,88 @@ export {
   // Secure implementations with proper cryptographic properties
   SecureConsumer,
   SecureProvider,
+  type SecureConsumerOptions,
+  type SecureProviderOptions,
+  type ClientAuthorizer,
 
   // Message encryption plugins
   BaseEncryptionPlugin,
+  AEADEncryptionPlugin,
   MessageEncryptionPlugin,
+  ChaCha20Poly1305Plugin,
+  EncryptThenMacPlugin,
   type EncryptionKeys,
+  type DirectionalKeys,
+  type KeyEpoch,
+  type EncryptionContext,
+  type MessageDirection,
+  type EncryptionPluginOptions,
+  type KeyLimitEvent,
+  type RekeyPolicy,
+  type PaddingPolicy,
+  type CompressionAlgorithm,
+  type CompressionOptions,
+  type ParseLimits,
+  ReplayWindow,
+  PluginRegistry,
+  type PluginRegistryOptions,
+  type StreamEncryptionOptions,
+  type StreamDecryptionOptions,
+
+  // Message transform pipeline
+  type MessageTransform,
+  type TransformParams,
+  type TransformRecord,
+  CompressionTransform,
+  PaddingTransform,
+  SignatureTransform,
+  type SignatureTransformOptions,
+
+  // Payload serializers
+  type Serializer,
+  JsonSerializer,
+  MessagePackSerializer,
+  CborSerializer,
+
+  // Binary wire format
+  encodeFrame,
+  decodeFrame,
+  isBinaryFrame,
+  type SealedBytes,
+
+  // Cipher suite negotiation
+  DEFAULT_CIPHER_SUITES,
+  createEncryptionPlugin,
+  type CipherSuite,
+  type KeyAgreementGroup,
+  type SessionKeys,
 
   // Cryptographic utilities
   HKDF,
   SecureRandom,
   constantTimeCompare,
   createContextInfo,
+
+  // Identity keys for authenticated handshakes
+  generateIdentityKeyPair,
+  identityFingerprint,
+  type IdentityKey,
+  type IdentityKeyPair,
+  type PreSharedKey,
+
+  // Trust-on-first-use known peers
+  FileKnownPeersStore,
+  MemoryKnownPeersStore,
+  type KnownPeersStore,
+
+  // Errors
+  SubtylSocketError,
+  PeerKeyChangedError,
+  KeyLimitExceededError,
+  ReplayError,
+  UnsupportedAlgorithmError,
+  DecryptionError,
+  type DecryptionFailure,
+  MessageParseError,
+  type ParseFailure,
 };
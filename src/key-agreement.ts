@@ -0,0 +1,125 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import {
+  createECDH,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  type ECDH,
+  type KeyObject,
+} from 'crypto';
+
+const ECDH_CURVES = {
+  'P-256': 'prime256v1',
+  'P-384': 'secp384r1',
+} as const;
+
+export type KeyAgreementGroup = 'x25519' | keyof typeof ECDH_CURVES;
+
+/**
+ * Key agreement groups offered by default, most preferred first
+ */
+export const DEFAULT_KEY_AGREEMENT_GROUPS: readonly KeyAgreementGroup[] = [
+  'x25519',
+  'P-256',
+  'P-384',
+];
+
+export function isKeyAgreementGroup(value: unknown): value is KeyAgreementGroup {
+  return value === 'x25519' || (typeof value === 'string' && Object.hasOwn(ECDH_CURVES, value));
+}
+
+/**
+ * Validates a locally configured group preference list
+ */
+export function resolveKeyAgreementGroups(groups?: readonly string[]): KeyAgreementGroup[] {
+  if (!groups) {
+    return [...DEFAULT_KEY_AGREEMENT_GROUPS];
+  }
+  if (groups.length === 0) {
+    throw new Error('At least one key agreement group must be enabled');
+  }
+
+  return groups.map(group => {
+    if (!isKeyAgreementGroup(group)) {
+      throw new Error(`Unknown key agreement group: ${group}`);
+    }
+    return group;
+  });
+}
+
+/**
+ * Picks the first group in the offerer's preference order that we also support
+ */
+export function selectKeyAgreementGroup(
+  offered: unknown,
+  supported: readonly KeyAgreementGroup[],
+): KeyAgreementGroup | undefined {
+  if (!Array.isArray(offered)) {
+    return undefined;
+  }
+
+  return offered.find((group): group is KeyAgreementGroup => supported.includes(group));
+}
+
+/**
+ * Ephemeral key pair for a single key agreement group
+ * Public keys are exchanged as raw bytes: uncompressed points for the NIST curves,
+ * the 32-byte u-coordinate for X25519
+ */
+export class KeyAgreement {
+  readonly group: KeyAgreementGroup;
+  private readonly ecdh?: ECDH;
+  private readonly x25519?: { privateKey: KeyObject; publicKey: Buffer };
+
+  constructor(group: KeyAgreementGroup) {
+    this.group = group;
+
+    if (group === 'x25519') {
+      const { privateKey, publicKey } = generateKeyPairSync('x25519');
+      this.x25519 = {
+        privateKey,
+        publicKey: Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url'),
+      };
+    } else {
+      this.ecdh = createECDH(ECDH_CURVES[group]);
+      this.ecdh.generateKeys();
+    }
+  }
+
+  getPublicKey(): Buffer {
+    return this.ecdh ? this.ecdh.getPublicKey() : Buffer.from(this.x25519!.publicKey);
+  }
+
+  /**
+   * Computes the raw shared secret with a peer's public key in the same group
+   */
+  computeSecret(peerPublicKey: Buffer): Buffer {
+    if (this.ecdh) {
+      return this.ecdh.computeSecret(peerPublicKey);
+    }
+
+    if (peerPublicKey.length !== 32) {
+      throw new Error('Invalid X25519 public key');
+    }
+
+    const secret = diffieHellman({
+      privateKey: this.x25519!.privateKey,
+      publicKey: createPublicKey({
+        key: { kty: 'OKP', crv: 'X25519', x: peerPublicKey.toString('base64url') },
+        format: 'jwk',
+      }),
+    });
+
+    // Low-order points yield an all-zero secret (RFC 7748 section 6.1)
+    if (secret.every(byte => byte === 0)) {
+      throw new Error('Invalid X25519 public key');
+    }
+
+    return secret;
+  }
+}
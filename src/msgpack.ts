@@ -0,0 +1,345 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+/**
+ * MessagePack encoding (https://github.com/msgpack/msgpack/blob/master/spec.md)
+ *
+ * Byte arrays become bin, Dates the timestamp extension (type -1) and BigInts 64-bit integers;
+ * 64-bit integers always decode as BigInt, so other numbers beyond 32 bits are sent as float64.
+ * Maps decode as plain objects when every key is a string, and as Map otherwise. Decoding applies
+ * the same limits and drops the same keys as parseJson.
+ */
+
+import {
+  DEFAULT_PARSE_LIMITS,
+  assertMessageSize,
+  assertNestingDepth,
+  assertStringLength,
+  isDangerousKey,
+  type ParseLimits,
+} from './safe-json.ts';
+
+const TIMESTAMP_TYPE = -1;
+
+export function encodeMessagePack(value: unknown): Buffer {
+  const chunks: Buffer[] = [];
+  write(value, chunks);
+  return Buffer.concat(chunks);
+}
+
+export function decodeMessagePack(
+  data: Buffer,
+  limits: Required<ParseLimits> = DEFAULT_PARSE_LIMITS,
+): unknown {
+  assertMessageSize(data.length, limits);
+  const reader = { data, offset: 0, depth: 0, limits };
+  const value = read(reader);
+  if (reader.offset !== data.length) {
+    throw new Error('Malformed MessagePack data');
+  }
+  return value;
+}
+
+function header(type: number, ...fields: Array<[bytes: 1 | 2 | 4, value: number]>): Buffer {
+  const buffer = Buffer.alloc(1 + fields.reduce((sum, [bytes]) => sum + bytes, 0));
+  buffer[0] = type;
+  let offset = 1;
+  for (const [bytes, value] of fields) {
+    buffer.writeUIntBE(value, offset, bytes);
+    offset += bytes;
+  }
+  return buffer;
+}
+
+/**
+ * Writes the smallest length prefix available: a fix type, then 8, 16 or 32 bits
+ */
+function writeLength(
+  length: number,
+  fix: [base: number, max: number] | null,
+  [type8, type16, type32]: [type8: number | null, type16: number, type32: number],
+  chunks: Buffer[],
+): void {
+  if (fix && length <= fix[1]) {
+    chunks.push(Buffer.from([fix[0] | length]));
+  } else if (type8 !== null && length <= 0xff) {
+    chunks.push(header(type8, [1, length]));
+  } else if (length <= 0xffff) {
+    chunks.push(header(type16, [2, length]));
+  } else if (length <= 0xffffffff) {
+    chunks.push(header(type32, [4, length]));
+  } else {
+    throw new Error('Value too large for MessagePack');
+  }
+}
+
+function writeNumber(value: number, chunks: Buffer[]): void {
+  if (Number.isInteger(value) && value >= 0 && value <= 0xffffffff) {
+    if (value <= 0x7f) {
+      chunks.push(Buffer.from([value]));
+    } else if (value <= 0xff) {
+      chunks.push(header(0xcc, [1, value]));
+    } else if (value <= 0xffff) {
+      chunks.push(header(0xcd, [2, value]));
+    } else {
+      chunks.push(header(0xce, [4, value]));
+    }
+    return;
+  }
+
+  if (Number.isInteger(value) && value < 0 && value >= -0x80000000) {
+    const buffer = Buffer.alloc(value >= -32 ? 1 : value >= -0x80 ? 2 : value >= -0x8000 ? 3 : 5);
+    if (value >= -32) {
+      buffer.writeInt8(value);
+    } else if (value >= -0x80) {
+      buffer[0] = 0xd0;
+      buffer.writeInt8(value, 1);
+    } else if (value >= -0x8000) {
+      buffer[0] = 0xd1;
+      buffer.writeInt16BE(value, 1);
+    } else {
+      buffer[0] = 0xd2;
+      buffer.writeInt32BE(value, 1);
+    }
+    chunks.push(buffer);
+    return;
+  }
+
+  const buffer = Buffer.alloc(9);
+  buffer[0] = 0xcb;
+  buffer.writeDoubleBE(value, 1);
+  chunks.push(buffer);
+}
+
+function writeBigInt(value: bigint, chunks: Buffer[]): void {
+  const buffer = Buffer.alloc(9);
+  if (value >= 0n && value < 1n << 64n) {
+    buffer[0] = 0xcf;
+    buffer.writeBigUInt64BE(value, 1);
+  } else if (value < 0n && value >= -(1n << 63n)) {
+    buffer[0] = 0xd3;
+    buffer.writeBigInt64BE(value, 1);
+  } else {
+    throw new Error('BigInt out of range for MessagePack');
+  }
+  chunks.push(buffer);
+}
+
+function writeDate(value: Date, chunks: Buffer[]): void {
+  const ms = value.getTime();
+  if (Number.isNaN(ms)) {
+    throw new Error('Cannot serialize an invalid Date');
+  }
+  const seconds = Math.floor(ms / 1000);
+  const nanoseconds = (ms - seconds * 1000) * 1e6;
+
+  if (seconds >= 0 && seconds < 2 ** 34) {
+    if (nanoseconds === 0 && seconds <= 0xffffffff) {
+      const buffer = Buffer.from([0xd6, 0xff, 0, 0, 0, 0]);
+      buffer.writeUInt32BE(seconds, 2);
+      chunks.push(buffer);
+      return;
+    }
+    const buffer = Buffer.from([0xd7, 0xff, 0, 0, 0, 0, 0, 0, 0, 0]);
+    buffer.writeBigUInt64BE((BigInt(nanoseconds) << 34n) | BigInt(seconds), 2);
+    chunks.push(buffer);
+    return;
+  }
+
+  const buffer = Buffer.alloc(15);
+  buffer[0] = 0xc7;
+  buffer[1] = 12;
+  buffer.writeInt8(TIMESTAMP_TYPE, 2);
+  buffer.writeUInt32BE(nanoseconds, 3);
+  buffer.writeBigInt64BE(BigInt(seconds), 7);
+  chunks.push(buffer);
+}
+
+function write(value: unknown, chunks: Buffer[]): void {
+  if (value === null || value === undefined) {
+    chunks.push(Buffer.from([0xc0]));
+  } else if (typeof value === 'boolean') {
+    chunks.push(Buffer.from([value ? 0xc3 : 0xc2]));
+  } else if (typeof value === 'number') {
+    writeNumber(value, chunks);
+  } else if (typeof value === 'bigint') {
+    writeBigInt(value, chunks);
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    writeLength(bytes.length, [0xa0, 31], [0xd9, 0xda, 0xdb], chunks);
+    chunks.push(bytes);
+  } else if (value instanceof Uint8Array) {
+    writeLength(value.length, null, [0xc4, 0xc5, 0xc6], chunks);
+    chunks.push(Buffer.from(value));
+  } else if (value instanceof Date) {
+    writeDate(value, chunks);
+  } else if (Array.isArray(value)) {
+    writeLength(value.length, [0x90, 15], [null, 0xdc, 0xdd], chunks);
+    for (const item of value) {
+      write(item, chunks);
+    }
+  } else if (typeof value === 'object') {
+    const entries = value instanceof Map ? [...value.entries()] : Object.entries(value);
+    writeLength(entries.length, [0x80, 15], [null, 0xde, 0xdf], chunks);
+    for (const [key, item] of entries) {
+      write(key, chunks);
+      write(item, chunks);
+    }
+  } else {
+    throw new Error(`Cannot serialize a ${typeof value} as MessagePack`);
+  }
+}
+
+interface Reader {
+  data: Buffer;
+  offset: number;
+  depth: number;
+  limits: Required<ParseLimits>;
+}
+
+function take(reader: Reader, length: number): Buffer {
+  if (reader.offset + length > reader.data.length) {
+    throw new Error('Malformed MessagePack data');
+  }
+  const bytes = reader.data.subarray(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return bytes;
+}
+
+function readUInt(reader: Reader, bytes: 1 | 2 | 4): number {
+  return take(reader, bytes).readUIntBE(0, bytes);
+}
+
+function readString(reader: Reader, length: number): string {
+  const text = take(reader, length).toString('utf8');
+  assertStringLength(text.length, reader.limits);
+  return text;
+}
+
+/**
+ * Reads the items of an array or map one level deeper, refusing nesting beyond the limit
+ */
+function readNested<T>(reader: Reader, readItems: () => T): T {
+  assertNestingDepth(++reader.depth, reader.limits);
+  const items = readItems();
+  reader.depth--;
+  return items;
+}
+
+function readArray(reader: Reader, length: number): unknown[] {
+  // Every item takes at least one byte, so a length beyond the data is a lie
+  if (length > reader.data.length - reader.offset) {
+    throw new Error('Malformed MessagePack data');
+  }
+  return readNested(reader, () => Array.from({ length }, () => read(reader)));
+}
+
+function readMap(reader: Reader, length: number): Record<string, unknown> | Map<unknown, unknown> {
+  if (length * 2 > reader.data.length - reader.offset) {
+    throw new Error('Malformed MessagePack data');
+  }
+  const entries = readNested(reader, () =>
+    Array.from({ length }, () => [read(reader), read(reader)] as const),
+  );
+  if (!entries.every(([key]) => typeof key === 'string')) {
+    return new Map(entries);
+  }
+
+  const object: Record<string, unknown> = {};
+  for (const [key, item] of entries) {
+    if (!isDangerousKey(key as string)) {
+      object[key as string] = item;
+    }
+  }
+  return object;
+}
+
+function readExtension(reader: Reader, length: number): Date {
+  const type = take(reader, 1).readInt8(0);
+  const body = take(reader, length);
+  if (type !== TIMESTAMP_TYPE) {
+    throw new Error(`Unsupported MessagePack extension type: ${type}`);
+  }
+
+  if (length === 4) {
+    return new Date(body.readUInt32BE(0) * 1000);
+  }
+  if (length === 8) {
+    const packed = body.readBigUInt64BE(0);
+    const seconds = Number(packed & ((1n << 34n) - 1n));
+    const nanoseconds = Number(packed >> 34n);
+    return new Date(seconds * 1000 + nanoseconds / 1e6);
+  }
+  if (length === 12) {
+    return new Date(Number(body.readBigInt64BE(4)) * 1000 + body.readUInt32BE(0) / 1e6);
+  }
+  throw new Error('Malformed MessagePack data');
+}
+
+function read(reader: Reader): unknown {
+  const type = take(reader, 1)[0]!;
+
+  if (type <= 0x7f) return type;
+  if (type <= 0x8f) return readMap(reader, type & 0x0f);
+  if (type <= 0x9f) return readArray(reader, type & 0x0f);
+  if (type <= 0xbf) return readString(reader, type & 0x1f);
+  if (type >= 0xe0) return type - 0x100;
+
+  switch (type) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+    case 0xc5:
+    case 0xc6:
+      return Buffer.from(take(reader, readUInt(reader, (1 << (type - 0xc4)) as 1 | 2 | 4)));
+    case 0xc7:
+    case 0xc8:
+    case 0xc9:
+      return readExtension(reader, readUInt(reader, (1 << (type - 0xc7)) as 1 | 2 | 4));
+    case 0xca:
+      return take(reader, 4).readFloatBE(0);
+    case 0xcb:
+      return take(reader, 8).readDoubleBE(0);
+    case 0xcc:
+    case 0xcd:
+    case 0xce:
+      return readUInt(reader, (1 << (type - 0xcc)) as 1 | 2 | 4);
+    case 0xcf:
+      return take(reader, 8).readBigUInt64BE(0);
+    case 0xd0:
+    case 0xd1:
+    case 0xd2: {
+      const bytes = (1 << (type - 0xd0)) as 1 | 2 | 4;
+      return take(reader, bytes).readIntBE(0, bytes);
+    }
+    case 0xd3:
+      return take(reader, 8).readBigInt64BE(0);
+    case 0xd4:
+    case 0xd5:
+    case 0xd6:
+    case 0xd7:
+    case 0xd8:
+      return readExtension(reader, 1 << (type - 0xd4));
+    case 0xd9:
+    case 0xda:
+    case 0xdb:
+      return readString(reader, readUInt(reader, (1 << (type - 0xd9)) as 1 | 2 | 4));
+    case 0xdc:
+      return readArray(reader, readUInt(reader, 2));
+    case 0xdd:
+      return readArray(reader, readUInt(reader, 4));
+    case 0xde:
+      return readMap(reader, readUInt(reader, 2));
+    case 0xdf:
+      return readMap(reader, readUInt(reader, 4));
+    default:
+      throw new Error('Malformed MessagePack data');
+  }
+}
@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import { randomInt } from 'crypto';
+
+/**
+ * How much padding to add to each plaintext before encryption, hiding its exact length
+ *
+ * - block: round up to a multiple of blockSize bytes
+ * - power-of-two: round up to the next power of two
+ * - random: add between 0 and maxBytes bytes, chosen afresh for every message
+ */
+export type PaddingPolicy =
+  | { type: 'block'; blockSize: number }
+  | { type: 'power-of-two' }
+  | { type: 'random'; maxBytes: number };
+
+const PADDING_MARKER = 0x80;
+
+export function validatePaddingPolicy(policy: PaddingPolicy): void {
+  switch (policy.type) {
+    case 'block':
+      if (!Number.isInteger(policy.blockSize) || policy.blockSize < 1) {
+        throw new Error('Padding block size must be a positive integer');
+      }
+      return;
+    case 'power-of-two':
+      return;
+    case 'random':
+      if (!Number.isInteger(policy.maxBytes) || policy.maxBytes < 0) {
+        throw new Error('Random padding maxBytes must be a non-negative integer');
+      }
+      return;
+    default:
+      throw new Error(`Unknown padding policy: ${(policy as { type: unknown }).type}`);
+  }
+}
+
+function paddedLength(length: number, policy: PaddingPolicy): number {
+  switch (policy.type) {
+    case 'block':
+      return Math.ceil(length / policy.blockSize) * policy.blockSize;
+    case 'power-of-two':
+      return 2 ** Math.ceil(Math.log2(length));
+    case 'random':
+      return length + randomInt(policy.maxBytes + 1);
+  }
+}
+
+/**
+ * Appends a 0x80 marker and zero bytes up to the length the policy calls for
+ * The padding is encrypted, and so authenticated, along with the plaintext
+ */
+export function padPlaintext(plaintext: Buffer, policy: PaddingPolicy): Buffer {
+  const minimum = plaintext.length + 1;
+  const padded = Buffer.alloc(paddedLength(minimum, policy));
+  plaintext.copy(padded);
+  padded[plaintext.length] = PADDING_MARKER;
+  return padded;
+}
+
+/**
+ * Strips padding added by padPlaintext()
+ */
+export function unpadPlaintext(padded: Buffer): Buffer {
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) {
+    end--;
+  }
+  if (end < 0 || padded[end] !== PADDING_MARKER) {
+    throw new Error('Invalid padding');
+  }
+  return padded.subarray(0, end);
+}
@@ -0,0 +1,147 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import { MessageParseError } from './errors.ts';
+
+/**
+ * Bounds on untrusted JSON, checked before it is parsed or anything is decrypted
+ */
+export interface ParseLimits {
+  /**
+   * Largest message accepted, in bytes
+   */
+  maxBytes?: number;
+  /**
+   * Deepest nesting of objects and arrays
+   */
+  maxDepth?: number;
+  /**
+   * Longest string, key or value, in characters
+   */
+  maxStringLength?: number;
+}
+
+/**
+ * Limits for encrypted messages; ciphertext travels as one long string, so strings are bounded
+ * only by the message size
+ */
+export const DEFAULT_PARSE_LIMITS: Required<ParseLimits> = {
+  maxBytes: 16 * 1024 * 1024,
+  maxDepth: 64,
+  maxStringLength: Infinity,
+};
+
+/**
+ * Limits for handshake messages, which are small and shallow
+ */
+export const DEFAULT_HANDSHAKE_PARSE_LIMITS: Required<ParseLimits> = {
+  maxBytes: 64 * 1024,
+  maxDepth: 8,
+  maxStringLength: 4096,
+};
+
+/**
+ * Keys that could reach an object's prototype if the result were merged into another object
+ */
+const DANGEROUS_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+export function resolveParseLimits(
+  limits: ParseLimits = {},
+  defaults: Required<ParseLimits> = DEFAULT_PARSE_LIMITS,
+): Required<ParseLimits> {
+  const resolved = { ...defaults, ...limits };
+  for (const [name, value] of Object.entries(resolved)) {
+    if (value !== Infinity && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`Parse limit ${name} must be a positive integer`);
+    }
+  }
+  return resolved;
+}
+
+export function assertMessageSize(byteLength: number, limits: Required<ParseLimits>): void {
+  if (byteLength > limits.maxBytes) {
+    throw new MessageParseError('too-large', `exceeds ${limits.maxBytes} bytes`);
+  }
+}
+
+export function assertNestingDepth(depth: number, limits: Required<ParseLimits>): void {
+  if (depth > limits.maxDepth) {
+    throw new MessageParseError('too-deep', `exceeds ${limits.maxDepth} levels`);
+  }
+}
+
+export function assertStringLength(length: number, limits: Required<ParseLimits>): void {
+  if (length > limits.maxStringLength) {
+    throw new MessageParseError('string-too-long', `exceeds ${limits.maxStringLength} characters`);
+  }
+}
+
+/**
+ * Whether a key is one parseJson drops; binary decoders drop the same keys from the objects they build
+ */
+export function isDangerousKey(key: string): boolean {
+  return DANGEROUS_KEYS.has(key);
+}
+
+/**
+ * Narrows parsed JSON to an object with string keys, as envelopes and message headers must be
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Counts bracket nesting outside strings, so deeply nested input is refused before JSON.parse
+ * spends any time or stack on it
+ */
+function assertDepth(text: string, limits: Required<ParseLimits>): void {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    if (inString) {
+      if (char === 0x5c) {
+        i++;
+      } else if (char === 0x22) {
+        inString = false;
+      }
+    } else if (char === 0x22) {
+      inString = true;
+    } else if (char === 0x7b || char === 0x5b) {
+      assertNestingDepth(++depth, limits);
+    } else if (char === 0x7d || char === 0x5d) {
+      depth--;
+    }
+  }
+}
+
+/**
+ * JSON.parse for untrusted input: enforces the limits and drops __proto__, constructor
+ * and prototype keys wherever they appear
+ */
+export function parseJson(input: string | Buffer, limits: Required<ParseLimits>): unknown {
+  assertMessageSize(
+    typeof input === 'string' ? Buffer.byteLength(input, 'utf8') : input.length,
+    limits,
+  );
+  const text = typeof input === 'string' ? input : input.toString('utf8');
+  assertDepth(text, limits);
+
+  try {
+    return JSON.parse(text, (key, value) => {
+      assertStringLength(key.length, limits);
+      if (typeof value === 'string') {
+        assertStringLength(value.length, limits);
+      }
+      return DANGEROUS_KEYS.has(key) ? undefined : value;
+    });
+  } catch (error) {
+    if (error instanceof MessageParseError) {
+      throw error;
+    }
+    throw new MessageParseError('invalid-json');
+  }
+}
@@ -0,0 +1,71 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import { decodeMessagePack, encodeMessagePack } from './msgpack.ts';
+import { decodeCbor, encodeCbor } from './cbor.ts';
+import { DEFAULT_PARSE_LIMITS, parseJson, type ParseLimits } from './safe-json.ts';
+
+/**
+ * Turns message objects into plaintext bytes and back
+ * The id is recorded in each envelope, so receivers decode with the serializer the sender used;
+ * plugins pass their parse limits, which deserialize() must enforce on untrusted data
+ */
+export interface Serializer {
+  readonly id: string;
+  serialize(_value: unknown): Buffer;
+  deserialize(_data: Buffer, _limits: Required<ParseLimits>): unknown;
+}
+
+/**
+ * Longest serializer id an envelope may carry
+ */
+export const MAX_SERIALIZER_ID_LENGTH = 32;
+
+/**
+ * JSON text, the default; Dates become strings and Maps, BigInts and byte arrays are lost
+ * or rejected, except byte-array payloads, which are sent alongside the JSON as raw bytes
+ */
+export class JsonSerializer implements Serializer {
+  readonly id = 'json';
+
+  serialize(value: unknown): Buffer {
+    return Buffer.from(JSON.stringify(value), 'utf8');
+  }
+
+  deserialize(data: Buffer, limits: Required<ParseLimits> = DEFAULT_PARSE_LIMITS): unknown {
+    return parseJson(data, limits);
+  }
+}
+
+/**
+ * MessagePack, preserving Dates, Maps, BigInts up to 64 bits and byte arrays
+ */
+export class MessagePackSerializer implements Serializer {
+  readonly id = 'msgpack';
+
+  serialize(value: unknown): Buffer {
+    return encodeMessagePack(value);
+  }
+
+  deserialize(data: Buffer, limits: Required<ParseLimits> = DEFAULT_PARSE_LIMITS): unknown {
+    return decodeMessagePack(data, limits);
+  }
+}
+
+/**
+ * CBOR (RFC 8949), preserving Dates, Maps, BigInts of any size and byte arrays
+ */
+export class CborSerializer implements Serializer {
+  readonly id = 'cbor';
+
+  serialize(value: unknown): Buffer {
+    return encodeCbor(value);
+  }
+
+  deserialize(data: Buffer, limits: Required<ParseLimits> = DEFAULT_PARSE_LIMITS): unknown {
+    return decodeCbor(data, limits);
+  }
+}
@@ -0,0 +1,193 @@
+/*
+ * Copyright (c) 2025 Geoff Seemueller. All rights reserved.
+ * This software and associated documentation files are proprietary and confidential.
+ * Unauthorized copying, distribution, or use is strictly prohibited.
+ */
+
+import {
+  DEFAULT_MAX_DECOMPRESSED_SIZE,
+  compress,
+  decompress,
+  isCompressionAlgorithm,
+  validateCompressionOptions,
+  type CompressionOptions,
+} from './compression.ts';
+import {
+  padPlaintext,
+  unpadPlaintext,
+  validatePaddingPolicy,
+  type PaddingPolicy,
+} from './padding.ts';
+import { signWithIdentityKey, verifyIdentitySignature, type IdentityKey } from './crypto-utils.ts';
+
+export type TransformParams = Record<string, string | number | boolean>;
+
+/**
+ * One applied stage as recorded in the envelope header, in the order the sender applied it
+ */
+export interface TransformRecord {
+  name: string;
+  params?: TransformParams;
+}
+
+/**
+ * A reversible stage applied to message plaintext before encryption
+ * The receiver undoes each recorded stage in reverse order, looking stages up by name
+ */
+export interface MessageTransform {
+  readonly name: string;
+  /**
+   * Transforms outgoing bytes, returning the parameters the receiver needs to reverse it,
+   * or null to leave this message untouched and unrecorded
+   */
+  encode(
+    _data: Buffer,
+    _messageType: string | undefined,
+  ): { data: Buffer; params?: TransformParams } | null;
+  /**
+   * Reverses encode() using the recorded parameters
+   */
+  decode(_data: Buffer, _params: TransformParams): Buffer;
+}
+
+/**
+ * Most stages a single envelope may record
+ */
+export const MAX_TRANSFORMS = 8;
+
+/**
+ * Compresses messages that are large enough and actually shrink
+ */
+export class CompressionTransform implements MessageTransform {
+  readonly name = 'compress';
+  private readonly options: CompressionOptions;
+
+  constructor(options: CompressionOptions) {
+    validateCompressionOptions(options);
+    this.options = options;
+  }
+
+  encode(
+    data: Buffer,
+    messageType: string | undefined,
+  ): { data: Buffer; params: TransformParams } | null {
+    const { algorithm, minSize = 128, excludeTypes } = this.options;
+    if (data.length < minSize || (messageType && excludeTypes?.includes(messageType))) {
+      return null;
+    }
+
+    const compressed = compress(data, algorithm);
+    return compressed.length < data.length ? { data: compressed, params: { algorithm } } : null;
+  }
+
+  decode(data: Buffer, params: TransformParams): Buffer {
+    if (!isCompressionAlgorithm(params.algorithm)) {
+      throw new Error(`Unknown compression algorithm: ${params.algorithm}`);
+    }
+    return decompress(
+      data,
+      params.algorithm,
+      this.options.maxDecompressedSize ?? DEFAULT_MAX_DECOMPRESSED_SIZE,
+    );
+  }
+}
+
+/**
+ * Pads messages according to a length-hiding policy
+ * Any receiver can strip the padding; the policy matters only to the sender
+ */
+export class PaddingTransform implements MessageTransform {
+  readonly name = 'pad';
+  private readonly policy?: PaddingPolicy;
+
+  constructor(policy?: PaddingPolicy) {
+    if (policy) {
+      validatePaddingPolicy(policy);
+    }
+    this.policy = policy;
+  }
+
+  encode(data: Buffer): { data: Buffer } | null {
+    return this.policy ? { data: padPlaintext(data, this.policy) } : null;
+  }
+
+  decode(data: Buffer): Buffer {
+    return unpadPlaintext(data);
+  }
+}
+
+export interface SignatureTransformOptions {
+  /**
+   * Our identity key, for signing outgoing messages
+   */
+  privateKey?: IdentityKey;
+  /**
+   * The peer's identity public key, for verifying incoming messages
+   */
+  peerPublicKey?: IdentityKey;
+}
+
+/**
+ * Signs each message with an identity key, so its author can be proven to a third party
+ * Layout: data | signature | signature length (2, big-endian). Applied before encryption,
+ * so the signature is hidden from onlookers along with the message it covers
+ */
+export class SignatureTransform implements MessageTransform {
+  readonly name = 'sign';
+  private readonly options: SignatureTransformOptions;
+
+  constructor(options: SignatureTransformOptions) {
+    this.options = options;
+  }
+
+  encode(data: Buffer): { data: Buffer } {
+    if (!this.options.privateKey) {
+      throw new Error('Signing messages requires a private key');
+    }
+
+    const signature = signWithIdentityKey(this.options.privateKey, data);
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(signature.length);
+    return { data: Buffer.concat([data, signature, length]) };
+  }
+
+  decode(data: Buffer): Buffer {
+    if (!this.options.peerPublicKey) {
+      throw new Error('Verifying signed messages requires the peer public key');
+    }
+    if (data.length < 2 || data.readUInt16BE(data.length - 2) > data.length - 2) {
+      throw new Error('Malformed signed message');
+    }
+
+    const signatureLength = data.readUInt16BE(data.length - 2);
+    const end = data.length - 2 - signatureLength;
+    const message = data.subarray(0, end);
+    if (!verifyIdentitySignature(this.options.peerPublicKey, message, data.subarray(end, -2))) {
+      throw new Error('Invalid message signature');
+    }
+    return message;
+  }
+}
+
+/**
+ * Checks the transform header of an incoming envelope before anything is decrypted
+ */
+export function isTransformHeader(value: unknown): value is TransformRecord[] {
+  return (
+    Array.isArray(value) &&
+    value.length <= MAX_TRANSFORMS &&
+    value.every(
+      record =>
+        record !== null &&
+        typeof record === 'object' &&
+        typeof record.name === 'string' &&
+        (record.params === undefined ||
+          (record.params !== null &&
+            typeof record.params === 'object' &&
+            !Array.isArray(record.params) &&
+            Object.values(record.params).every(param =>
+              ['string', 'number', 'boolean'].includes(typeof param),
+            ))),
+    )
+  );
+}